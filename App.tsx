@@ -1,81 +1,112 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import JSZip from 'jszip';
-import { generateStory, analyzeStoryInputs, generateImage, generateCohesiveImagePrompts, analyzeCharacterDescriptions, generateHS3000Dialogue } from './services/geminiService';
-import { Script, DialogueBlock, AnalyzedCharacter, StoryElements } from './types';
+import { generateStory, analyzeStoryInputs, generateImage, applyImageStyle, generateCohesiveImagePrompts, analyzeCharacterDescriptions, generateHS3000Dialogue, assignCharacterVoices, generateSpeech, setServiceLogListener, setModelSettings, summarizeEpisode } from './services/geminiService';
+import { Script, DialogueBlock, AnalyzedCharacter, StoryElements, GeneratedAudio, GeneratedImage, GeneratedCharacterPortrait, CharacterImage, TextFile, Hs3000Line } from './types';
 import Button from './components/Button';
-
-type GeneratedImage = { sceneIndex: number; imageUrl: string, base64: string, prompt: string };
-type CharacterImage = { fileName: string; base64: string; mimeType: string };
-type TextFile = { name: string; content: string };
-type GeneratedCharacterPortrait = { base64: string; mimeType: string, prompt: string };
+import PresentationPlayer from './components/PresentationPlayer';
+import StoryboardPanels, { CharacterReference, PanelRegenerationRequest } from './components/StoryboardPanels';
+import ScriptEditor from './components/ScriptEditor';
+import SettingsPanel from './components/SettingsPanel';
+import CharacterLibrary from './components/CharacterLibrary';
+import SeriesLog from './components/SeriesLog';
+import { scriptToFountain, parseFountain } from './services/fountain';
+import { scriptToFdx } from './services/finalDraft';
+import { scriptToPdf } from './services/screenplayPdf';
+import { readProjectBundle, ProjectBundle } from './services/projectBundle';
+import { configuredProviderName, modelProviderProblem } from './services/modelProvider';
+import { PipelineCheckpoint, createCheckpoint, describeCheckpoint, saveCheckpoint, loadCheckpoint, clearCheckpoint } from './services/checkpointStore';
+import { LibraryCharacter, listLibraryCharacters, saveLibraryCharacter, deleteLibraryCharacter, addToLibrary, findLibraryCharacter, applyLibraryDescriptors } from './services/characterLibrary';
+import { EpisodeRecord, listEpisodes, saveEpisode, deleteEpisode, createEpisodeRecord, findLoggedEpisode, knownRunningGags, selectRelevantEpisodes, describeEpisodesForPrompt } from './services/seriesLog';
+import { GenerationSettings, loadGenerationSettings, saveGenerationSettings, normalizeGenerationSettings } from './services/settings';
+import { GenerationReport, CharacterMatch, createGenerationReport, createReportRecorder, renderReportText } from './services/generationReport';
+import ReportView from './components/ReportView';
+import { ImageCallPlan, estimateImageCalls, describeEstimate } from './services/costLedger';
+import { renderStoryboardVideo, isVideoExportSupported, VIDEO_LEAD_IN_MS } from './services/videoExport';
+import { StoryboardItem, buildStoryboardItems } from './services/storyboardTimeline';
+import { SubtitleCue, measureTimeline, buildSubtitleCues, offsetCues, cuesToSrt, cuesToVtt } from './services/subtitles';
+import { buildSceneGraph, sceneForElement, isSameLocation, describeScene, Scene } from './services/sceneGraph';
+import { isLocationReferencePath, locationKeyFromFileName, matchLocationReference } from './services/locationReferences';
+import { getDialogueForScene, serializeHs3000, parseHs3000, attachHs3000Lines, hs3000FormatFromFileName, Hs3000Format } from './services/hs3000';
+import Hs3000Editor from './components/Hs3000Editor';
+import { CharacterMapping, buildAliasRegistry, proposeCharacterMapping, resolveCharacterName, normalizeCharacterName, describeCharacterMapping } from './services/aliasRegistry';
+import CharacterMappingReview, { MappingReference } from './components/CharacterMappingReview';
+import { ReferenceSet, characterReferenceFromPath, mergeReferenceSets, selectReferenceImages, describeReferenceImages } from './services/characterReferences';
 
 /**
- * HS3000 DIALOGUE EXTRACTION UTILITIES
- * These functions are defined here to be easily referrable for future updates.
+ * Subtitle cues for the storyboard, captioning each panel with its HS3000 line, as edited or
+ * imported, or else its nearest dialogue.
  */
+const subtitleCuesFor = async (items: StoryboardItem[], script: Script, hs3000Lines: Hs3000Line[]): Promise<SubtitleCue[]> =>
+    buildSubtitleCues(items, await measureTimeline(items), sceneIndex => {
+        const nearest = getDialogueForScene(sceneIndex, script);
+        const line = hs3000Lines.find(l => l.sceneIndex === sceneIndex);
+        return line ? { character: line.character, dialogue: line.dialogue, elementIndex: nearest?.elementIndex ?? null } : nearest;
+    });
 
-/**
- * Finds the nearest dialogue block associated with a given scene index.
- * Searches forward until a scene heading is encountered, then searches backward.
- */
-const getDialogueForScene = (sceneIndex: number, script: Script) => {
-    // Search forward first
-    for (let j = sceneIndex + 1; j < script.scene_elements.length; j++) {
-        const el = script.scene_elements[j];
-        if (el.type === 'scene_heading') break; 
-        if (el.type === 'dialogue_block') {
-             const dBlock = el as DialogueBlock;
-             const spoken = dBlock.elements.find(e => e.type === 'dialogue')?.content;
-             if (spoken) return { character: dBlock.character.toUpperCase(), dialogue: spoken, elementIndex: j };
-        }
-    }
-    // If not found forward, search backward
-    for (let j = sceneIndex - 1; j >= 0; j--) {
-        const el = script.scene_elements[j];
-        if (el.type === 'scene_heading') break;
-        if (el.type === 'dialogue_block') {
-             const dBlock = el as DialogueBlock;
-             const spoken = dBlock.elements.find(e => e.type === 'dialogue')?.content;
-             if (spoken) return { character: dBlock.character.toUpperCase(), dialogue: spoken, elementIndex: j };
-        }
-    }
-    return null;
+/** A style.txt upload takes precedence over the typed style prompt. */
+const resolveStylePrompt = (textFiles: TextFile[], stylePrompt: string): string => {
+    const styleFile = textFiles.find(f => f.name.toLowerCase() === 'style.txt');
+    return styleFile ? styleFile.content : stylePrompt;
 };
 
 /**
- * HS3000 CONTENT GENERATOR
- * Uses pre-computed lines from state to build the final text file.
+ * Approximates the image calls a reviewed script will lead to, before character analysis and
+ * storyboard prompts exist: a portrait per speaking character without a reference image, and
+ * a panel per action line (up to the image limit) with its action text as the prompt, chained to
+ * the previous panel while the location stays the same, plus the matching set image if any.
  */
-const generateHs3000Content = (lines: {character: string, dialogue: string}[]): string => {
-    return lines.map(line => `${line.character} "${line.dialogue}"`).join('\n');
+const planStoryboardImages = (script: Script, inputs: PipelineCheckpoint['inputs'], settings: GenerationSettings): ImageCallPlan[] => {
+    const style = resolveStylePrompt(inputs.textFiles, inputs.stylePrompt);
+    const referenced = new Set([
+        ...Object.keys(inputs.characterImages),
+        ...(inputs.libraryCharacters ?? []).filter(c => c.images.length > 0).flatMap(c => [c.name, ...c.aliases]),
+    ].map(name => name.toUpperCase().trim()));
+    const speakers = [...new Set(script.scene_elements
+        .filter((el): el is DialogueBlock => el.type === 'dialogue_block')
+        .map(el => el.character.toUpperCase().trim()))];
+    const portraits = speakers
+        .filter(name => !referenced.has(name))
+        .map(name => ({ prompt: applyImageStyle(`Photorealistic, cinematic, full body portrait of a character named ${name}.`, style), referenceImages: 0 }));
+    const scenes = buildSceneGraph(script);
+    const actions = script.scene_elements
+        .map((el, index) => ({ el, index }))
+        .filter(({ el }) => el.type === 'action' && el.content?.trim())
+        .slice(0, settings.maxSceneImages);
+    const locationKeys = Object.keys(inputs.locationImages ?? {});
+    const panels = actions.map(({ el, index }, i) => {
+        const slugline = sceneForElement(scenes, index)?.slugline;
+        return {
+            prompt: applyImageStyle(el.content || '', style),
+            referenceImages: Math.min(speakers.filter(name => (el.content || '').toUpperCase().includes(name)).length, settings.maxReferenceImages)
+                + (i > 0 && isSameLocation(sceneForElement(scenes, actions[i - 1].index), sceneForElement(scenes, index)) ? 1 : 0)
+                + (slugline && matchLocationReference(slugline.location, locationKeys) ? 1 : 0),
+        };
+    });
+    return [...portraits, ...panels];
 };
 
-
-// Levenshtein distance function for fuzzy string matching
-const levenshteinDistance = (a: string, b: string): number => {
-    const an = a ? a.length : 0;
-    const bn = b ? b.length : 0;
-    if (an === 0) return bn;
-    if (bn === 0) return an;
-    const matrix = Array(bn + 1).fill(null).map(() => Array(an + 1).fill(null));
-    for (let i = 0; i <= an; i += 1) {
-        matrix[0][i] = i;
+/**
+ * The reference images a character can be mapped to, in the generation run's precedence:
+ * an upload replaces a library character of the same name, and portraits are only generated
+ * for characters left without either.
+ */
+const mappingReferencesFor = (checkpoint: PipelineCheckpoint): MappingReference[] => {
+    const references = new Map<string, MappingReference>();
+    const add = (reference: MappingReference) => {
+        if (!references.has(reference.name.toLowerCase())) references.set(reference.name.toLowerCase(), reference);
+    };
+    for (const [name, images] of Object.entries(checkpoint.inputs.characterImages)) {
+        add({ name, aliases: [], images: images as CharacterImage[], origin: 'upload' });
     }
-    for (let j = 0; j <= bn; j += 1) {
-        matrix[j][0] = j;
+    for (const libraryCharacter of (checkpoint.inputs.libraryCharacters ?? []).filter(c => c.images.length > 0)) {
+        add({ name: libraryCharacter.name, aliases: libraryCharacter.aliases, images: libraryCharacter.images, origin: 'library' });
     }
-    for (let j = 1; j <= bn; j += 1) {
-        for (let i = 1; i <= an; i += 1) {
-            const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
-            matrix[j][i] = Math.min(
-                matrix[j][i - 1] + 1, // deletion
-                matrix[j - 1][i] + 1, // insertion
-                matrix[j - 1][i - 1] + substitutionCost, // substitution
-            );
-        }
+    for (const [name, value] of Object.entries(checkpoint.portraits)) {
+        const portrait = value as GeneratedCharacterPortrait;
+        add({ name, aliases: [], images: [{ base64: portrait.base64, mimeType: portrait.mimeType }], origin: 'portrait' });
     }
-    return matrix[bn][an];
+    return [...references.values()];
 };
 
 const DownloadIcon: React.FC = () => (
@@ -90,6 +121,18 @@ const SparklesIcon: React.FC = () => (
     </svg>
 );
 
+const PlayIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347a1.125 1.125 0 0 1-1.667-.986V5.653Z" />
+    </svg>
+);
+
+const VideoIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+        <path strokeLinecap="round" d="m15.75 10.5 4.72-4.72a.75.75 0 0 1 1.28.53v11.38a.75.75 0 0 1-1.28.53l-4.72-4.72M4.5 18.75h9a2.25 2.25 0 0 0 2.25-2.25v-9a2.25 2.25 0 0 0-2.25-2.25h-9A2.25 2.25 0 0 0 2.25 7.5v9a2.25 2.25 0 0 0 2.25 2.25Z" />
+    </svg>
+);
+
 const App: React.FC = () => {
     const [isGenerating, setIsGenerating] = useState<boolean>(false);
     const [isFileUploading, setIsFileUploading] = useState<boolean>(false);
@@ -100,13 +143,45 @@ const App: React.FC = () => {
     const [stylePrompt, setStylePrompt] = useState<string>('');
     const [storyPrompt, setStoryPrompt] = useState<string>('');
     const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
-    const [characterImages, setCharacterImages] = useState<Record<string, CharacterImage>>({});
+    const [characterImages, setCharacterImages] = useState<Record<string, CharacterImage[]>>({});
+    const [locationImages, setLocationImages] = useState<Record<string, CharacterImage>>({});
     const [generatedCharacterPortraits, setGeneratedCharacterPortraits] = useState<Record<string, GeneratedCharacterPortrait>>({});
     const [textFiles, setTextFiles] = useState<TextFile[]>([]);
-    const [generationReport, setGenerationReport] = useState<string>('');
+    const [importedScript, setImportedScript] = useState<Script | null>(null);
+    const [generationReport, setGenerationReport] = useState<GenerationReport | null>(null);
     const [generationComplete, setGenerationComplete] = useState(false);
     const [isReadyForDownload, setIsReadyForDownload] = useState(false);
-    const [hs3000Lines, setHs3000Lines] = useState<{character: string, dialogue: string}[]>([]);
+    const [hs3000Lines, setHs3000Lines] = useState<Hs3000Line[]>([]);
+    const [generatedAudio, setGeneratedAudio] = useState<GeneratedAudio[]>([]);
+    const [backgroundMusic, setBackgroundMusic] = useState<string[]>([]);
+    const [isPlayerOpen, setIsPlayerOpen] = useState(false);
+    const [pendingCheckpoint, setPendingCheckpoint] = useState<PipelineCheckpoint | null>(null);
+    const [isCancelling, setIsCancelling] = useState(false);
+    const cancelControllerRef = useRef<AbortController | null>(null);
+    const [animaticVideo, setAnimaticVideo] = useState<Blob | null>(null);
+    const [videoProgress, setVideoProgress] = useState<number | null>(null);
+    const [subtitleCues, setSubtitleCues] = useState<SubtitleCue[]>([]);
+    const videoControllerRef = useRef<AbortController | null>(null);
+    const [regeneratingSceneIndex, setRegeneratingSceneIndex] = useState<number | null>(null);
+    const [scriptReview, setScriptReview] = useState<PipelineCheckpoint | null>(null);
+    const [mappingReview, setMappingReview] = useState<PipelineCheckpoint | null>(null);
+    const [settings, setSettings] = useState<GenerationSettings>(loadGenerationSettings);
+    const [analyzedCharacters, setAnalyzedCharacters] = useState<AnalyzedCharacter[]>([]);
+    const [libraryCharacters, setLibraryCharacters] = useState<LibraryCharacter[]>([]);
+    const [selectedLibraryIds, setSelectedLibraryIds] = useState<string[]>([]);
+    const [seriesEpisodes, setSeriesEpisodes] = useState<EpisodeRecord[]>([]);
+
+    useEffect(() => {
+        loadCheckpoint()
+            .then(checkpoint => { if (checkpoint) setPendingCheckpoint(checkpoint); })
+            .catch(e => console.warn('Failed to load generation checkpoint:', e));
+        listLibraryCharacters()
+            .then(setLibraryCharacters)
+            .catch(e => console.warn('Failed to load the character library:', e));
+        listEpisodes()
+            .then(setSeriesEpisodes)
+            .catch(e => console.warn('Failed to load the series log:', e));
+    }, []);
     
     const handleFilesUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
         const files = event.target.files;
@@ -115,9 +190,15 @@ const App: React.FC = () => {
         setIsFileUploading(true);
         setStatusMessage(`Reading ${files.length} file(s)...`);
         
-        const processedImages: Record<string, CharacterImage> = {};
+        const processedImages: Record<string, CharacterImage[]> = {};
+        const processedLocations: Record<string, CharacterImage> = {};
         const processedTexts: TextFile[] = [];
+        const processedMusic: string[] = [];
+        let processedScript: Script | null = null;
+        let restoredBundle: ProjectBundle | null = null;
+        const hs3000Files: { name: string; content: string; format: Hs3000Format }[] = [];
         const ignoredFiles: string[] = [];
+        const fileErrors: string[] = [];
     
         const fileProcessingPromises: Promise<void>[] = Array.from(files).map((file: File) => (async () => {
             const fileName = file.name.toLowerCase();
@@ -126,6 +207,13 @@ const App: React.FC = () => {
                 try {
                     setStatusMessage(`Unpacking ${file.name}...`);
                     const zip = await JSZip.loadAsync(file);
+
+                    const bundle = await readProjectBundle(zip);
+                    if (bundle) {
+                        restoredBundle = bundle;
+                        return;
+                    }
+
                     const zipEntryPromises: Promise<void>[] = [];
                     
                     zip.forEach((relativePath, zipEntry: any) => {
@@ -139,18 +227,29 @@ const App: React.FC = () => {
                             try {
                                 if (['png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp'].includes(extension)) {
                                     const base64 = await zipEntry.async('base64');
-                                    const charName = entryName.split('/').pop()!.replace(/\.[^/.]+$/, "").toLowerCase();
                                     const mimeType = `image/${extension === 'jpg' ? 'jpeg' : extension}`;
-                                    processedImages[charName] = { fileName: entryName, base64, mimeType };
+                                    if (isLocationReferencePath(entryName)) {
+                                        processedLocations[locationKeyFromFileName(entryName)] = { fileName: entryName, base64, mimeType };
+                                        return;
+                                    }
+                                    const { name: charName, tags } = characterReferenceFromPath(entryName);
+                                    (processedImages[charName] ??= []).push({ fileName: entryName, base64, mimeType, ...(tags.length > 0 ? { tags } : {}) });
                                 } else if (['txt', 'json', 'md'].includes(extension)) {
                                     const content = await zipEntry.async('string');
                                     processedTexts.push({ name: entryName, content });
+                                } else if (extension === 'fountain') {
+                                    const content = await zipEntry.async('string');
+                                    processedScript = parseFountain(content, entryName.split('/').pop()!);
+                                } else if (['mp3', 'wav', 'ogg', 'm4a'].includes(extension)) {
+                                    const blob = await zipEntry.async('blob');
+                                    processedMusic.push(URL.createObjectURL(blob));
                                 } else {
                                     ignoredFiles.push(entryName);
                                 }
                             } catch (e) {
                                 console.warn(`Failed to process zip entry ${entryName}:`, e);
                                 ignoredFiles.push(entryName);
+                                fileErrors.push(`${entryName}: ${e instanceof Error ? e.message : String(e)}`);
                             }
                         })();
                         zipEntryPromises.push(entryPromise);
@@ -160,39 +259,83 @@ const App: React.FC = () => {
                 } catch(e) {
                     console.error(`Error reading zip file ${file.name}:`, e);
                     ignoredFiles.push(file.name);
+                    fileErrors.push(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
                 }
             } else {
                 const extension = fileName.split('.').pop() || '';
+                const hs3000Format = hs3000FormatFromFileName(file.name);
                 try {
-                    if (['png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp'].includes(extension)) {
+                    if (hs3000Format) {
+                        hs3000Files.push({ name: file.name, content: await file.text(), format: hs3000Format });
+                    } else if (['png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp'].includes(extension)) {
                         const base64 = await new Promise<string>((resolve, reject) => {
                             const reader = new FileReader();
                             reader.onload = e => resolve((e.target?.result as string).split(',')[1]);
                             reader.onerror = reject;
                             reader.readAsDataURL(file);
                         });
-                        const charName = file.name.replace(/\.[^/.]+$/, "").toLowerCase();
-                        processedImages[charName] = { fileName: file.name, base64, mimeType: file.type || `image/${extension === 'jpg' ? 'jpeg' : extension}` };
+                        const charName = characterReferenceFromPath(file.name).name;
+                        (processedImages[charName] ??= []).push({ fileName: file.name, base64, mimeType: file.type || `image/${extension === 'jpg' ? 'jpeg' : extension}` });
                     } else if (['txt', 'json', 'md'].includes(extension)) {
                         const content = await file.text();
                         processedTexts.push({ name: file.name, content });
+                    } else if (extension === 'fountain') {
+                        const content = await file.text();
+                        processedScript = parseFountain(content, file.name);
+                    } else if (['mp3', 'wav', 'ogg', 'm4a'].includes(extension)) {
+                        processedMusic.push(URL.createObjectURL(file));
                     } else {
                         ignoredFiles.push(file.name);
                     }
                 } catch (e) {
                     console.warn(`Failed to read file ${file.name}:`, e);
                     ignoredFiles.push(file.name);
+                    fileErrors.push(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
                 }
             }
         })());
     
         try {
             await Promise.all(fileProcessingPromises);
+            // Files are read concurrently, so order each set by file name rather than by which read finished first.
+            for (const images of Object.values(processedImages)) images.sort((a, b) => a.fileName.localeCompare(b.fileName));
             
-            setCharacterImages(prev => ({ ...prev, ...processedImages }));
+            setCharacterImages(prev => mergeReferenceSets(prev, processedImages));
+            setLocationImages(prev => ({ ...prev, ...processedLocations }));
             setTextFiles(prev => ([ ...prev, ...processedTexts ]));
-    
-            if (ignoredFiles.length > 0) {
+            setBackgroundMusic(prev => ([ ...prev, ...processedMusic ]));
+            if (processedScript) setImportedScript(processedScript);
+            if (fileErrors.length > 0) setError(`Some files could not be read. ${fileErrors.join(' ')}`);
+
+            // An HS3000 file uploaded with a project bundle (e.g. edited outside the app) replaces the
+            // bundle's own lines; without a bundle there are no panels to attach it to.
+            const bundleForHs3000: ProjectBundle | null = restoredBundle;
+            let importedHs3000Lines: Hs3000Line[] | null = null;
+            for (const hs3000File of hs3000Files) {
+                if (!bundleForHs3000) {
+                    ignoredFiles.push(hs3000File.name);
+                    continue;
+                }
+                const parsed = parseHs3000(hs3000File.content, hs3000File.format);
+                const attached = attachHs3000Lines(parsed.lines, bundleForHs3000.images, bundleForHs3000.script);
+                const issues = [...parsed.issues, ...attached.issues];
+                if (issues.length > 0) console.warn(`Issues reading ${hs3000File.name}:`, issues);
+                if (attached.lines.length > 0) importedHs3000Lines = attached.lines;
+                else ignoredFiles.push(hs3000File.name);
+            }
+
+            if (restoredBundle) {
+                const bundle: ProjectBundle = restoredBundle;
+                setScriptData(bundle.script);
+                setGeneratedImages(bundle.images);
+                setGeneratedCharacterPortraits(bundle.portraits);
+                setHs3000Lines(importedHs3000Lines ?? bundle.hs3000Lines);
+                setGeneratedAudio(bundle.audio);
+                setGenerationReport(bundle.report);
+                setGenerationComplete(false);
+                setIsReadyForDownload(true);
+                setStatusMessage(`Restored project "${bundle.script.title}" with ${bundle.images.length} image(s).`);
+            } else if (ignoredFiles.length > 0) {
                  setStatusMessage(`Processing complete. Ignored ${ignoredFiles.length} file(s).`);
             } else {
                  setStatusMessage('All files loaded successfully!');
@@ -208,67 +351,165 @@ const App: React.FC = () => {
         }
     }, []);
 
-    const handleGenerate = useCallback(async () => {
+    /**
+     * Runs the pipeline, or continues it from `resumeFrom`. A fresh run pauses after the script
+     * step, and again before the images to confirm the character references; approving either
+     * review calls back in with `afterReview` set.
+     */
+    const handleGenerate = useCallback(async (resumeFrom?: PipelineCheckpoint, afterReview = false) => {
+        const providerProblem = modelProviderProblem();
+        if (providerProblem) {
+            setError(providerProblem);
+            return;
+        }
         setIsGenerating(true);
+        setIsCancelling(false);
+        setScriptReview(null);
+        setMappingReview(null);
         setError(null);
-        setScriptData(null);
-        setGeneratedImages([]);
-        setGeneratedCharacterPortraits({});
-        setGenerationReport('');
+        setScriptData(resumeFrom?.script ?? null);
+        setGeneratedImages(resumeFrom?.images ?? []);
+        setGeneratedCharacterPortraits(resumeFrom?.portraits ?? {});
+        setGenerationReport(null);
         setGenerationComplete(false);
         setIsReadyForDownload(false);
-        setHs3000Lines([]);
-        
-        let report = '--- BOT THOTLE GENERATION REPORT ---\n\n';
-        report += `Generation Date: ${new Date().toISOString()}\n\n`;
+        setHs3000Lines(resumeFrom?.hs3000Lines ?? []);
+        setGeneratedAudio(resumeFrom?.audio ?? []);
+        setAnalyzedCharacters(resumeFrom?.analyzedCharacters ?? []);
+        setPendingCheckpoint(null);
 
-        try {
-            let storyElements: StoryElements;
-            let finalStoryPrompt = storyPrompt;
+        // Cancel aborts in-flight model requests through this signal; the loops below also check it
+        // so nothing new starts. Whatever was generated before stays in state and in the checkpoint.
+        const cancelController = new AbortController();
+        cancelControllerRef.current = cancelController;
+        const { signal } = cancelController;
+        const throwIfCancelled = () => {
+            if (signal.aborted) throw new Error('Generation was cancelled.');
+        };
+
+        // A resumed run works from the inputs captured when it started, which may predate a page refresh.
+        const checkpoint: PipelineCheckpoint = resumeFrom
+            ? { ...resumeFrom, report: structuredClone(resumeFrom.report), portraits: { ...resumeFrom.portraits }, images: [...resumeFrom.images], audio: [...resumeFrom.audio] }
+            : createCheckpoint({
+                textFiles, characterImages, locationImages, stylePrompt, storyPrompt, importedScript,
+                settings: normalizeGenerationSettings(settings),
+                libraryCharacters: libraryCharacters.filter(c => selectedLibraryIds.includes(c.id)),
+            });
+        const { textFiles: runTextFiles, characterImages: uploadedCharacterImages, stylePrompt: runStylePrompt, storyPrompt: runStoryPrompt, importedScript: runImportedScript } = checkpoint.inputs;
+        // Selected library characters are used like uploaded images; an upload with the same name wins.
+        const runLibraryCharacters = checkpoint.inputs.libraryCharacters ?? [];
+        const runCharacterImages: Record<string, CharacterImage[]> = {
+            ...Object.fromEntries(runLibraryCharacters.filter(c => c.images.length > 0).map(c => [c.name.toLowerCase(), c.images])),
+            ...uploadedCharacterImages,
+        };
+        const runLocationImages = checkpoint.inputs.locationImages ?? {};
+        // Checkpoints saved before settings (or a newer setting) existed run with the defaults.
+        const runSettings = normalizeGenerationSettings(checkpoint.inputs.settings);
+        setModelSettings(runSettings);
 
-            if (textFiles.length === 0 && !storyPrompt && Object.keys(characterImages).length === 0) {
+        // The recorder appends to checkpoint.report in place, so every saved checkpoint carries the report so far.
+        const recorder = createReportRecorder(checkpoint.report);
+        if (resumeFrom && !afterReview) {
+            recorder.beginStage('resume');
+            recorder.info(`Previous progress: ${describeCheckpoint(resumeFrom)}`);
+        }
+        recorder.report.status = 'running';
+        recorder.report.provider ??= configuredProviderName();
+        const persistCheckpoint = () => saveCheckpoint(checkpoint)
+            .catch(e => console.warn('Failed to save generation checkpoint:', e));
+        setServiceLogListener(recorder.log);
+
+        try {
+            let finalStoryPrompt = runStoryPrompt;
+            const noInputsProvided = runTextFiles.length === 0 && !runStoryPrompt && !runImportedScript && Object.keys(runCharacterImages).length === 0;
+            if (noInputsProvided) {
                 finalStoryPrompt = "A lone astronaut discovers a strange, glowing artifact on a desolate moon.";
-                report += 'NOTE: No inputs provided. Using a default story prompt to begin generation.\n\n';
-            }
-            
-            if (textFiles.length > 0) {
-                report += '--- SOURCE FILES ---\n';
-                report += textFiles.map(f => ` - ${f.name}`).join('\n') + '\n\n';
-                setStatusMessage('Analyzing uploaded files for story elements...');
-                storyElements = await analyzeStoryInputs(textFiles);
-            } else {
-                report += '--- SOURCE FILES ---\n';
-                report += 'No context files provided. Story elements will be inferred from the prompt.\n\n';
-                storyElements = {
-                    characters: 'To be determined by the writer based on the story prompt.',
-                    story: 'To be determined by the writer based on the story prompt.',
-                    today: 'To be determined by the writer based on the story prompt.'
-                };
             }
 
-            const styleFile = textFiles.find(f => f.name.toLowerCase() === 'style.txt');
-            const finalStylePrompt = styleFile ? styleFile.content : stylePrompt;
+            const styleFile = runTextFiles.find(f => f.name.toLowerCase() === 'style.txt');
+            const finalStylePrompt = resolveStylePrompt(runTextFiles, runStylePrompt);
+            const uploadedCharacterNames = Object.keys(runCharacterImages);
 
-            if (styleFile) {
-                report += `NOTE: Using style.txt for style prompt.\n---\n${styleFile.content}\n---\n\n`;
-            } else if (stylePrompt) {
-                report += `--- STYLE PROMPT ---\nStyle: "${stylePrompt}"\n\n`;
-            }
+            if (!checkpoint.storyElements) {
+                recorder.beginStage('setup');
+                if (noInputsProvided) {
+                    recorder.info('No inputs provided. Using a default story prompt to begin generation.');
+                }
+                recorder.info(
+                    runTextFiles.length > 0 ? 'Source files:' : 'No context files provided. Story elements will be inferred from the prompt.',
+                    runTextFiles.length > 0 ? runTextFiles.map(f => `- ${f.name}`).join('\n') : undefined
+                );
+                if (styleFile) {
+                    recorder.info('Using style.txt for style prompt.', styleFile.content);
+                } else if (runStylePrompt) {
+                    recorder.info(`Style prompt: "${runStylePrompt}"`);
+                }
+                if (uploadedCharacterNames.length > 0) {
+                    recorder.info(`The following characters were provided via image upload or the character library and must be included in the story: ${uploadedCharacterNames.join(', ')}`);
+                }
+                const referenceSets = Object.entries(uploadedCharacterImages).filter(([, images]) => (images as CharacterImage[]).length > 1);
+                if (referenceSets.length > 0) {
+                    recorder.info('Uploaded reference sets:', referenceSets
+                        .map(([name, images]) => `- ${name}: ${(images as CharacterImage[]).map(img => `${img.fileName.split('/').pop()}${img.tags ? ` [${img.tags.join(', ')}]` : ''}`).join(', ')}`)
+                        .join('\n'));
+                }
+                if (runLibraryCharacters.length > 0) {
+                    recorder.info('Library characters:', runLibraryCharacters
+                        .map(c => `- ${c.name}${c.aliases.length > 0 ? ` (aliases: ${c.aliases.join(', ')})` : ''}: ${c.images.length} reference image(s)${c.descriptors ? ', stored descriptors' : ''}`)
+                        .join('\n'));
+                }
 
-            const uploadedCharacterNames = Object.keys(characterImages);
-            if (uploadedCharacterNames.length > 0) {
-                report += '--- UPLOADED CHARACTERS ---\n';
-                report += `The following characters were provided via image upload and must be included in the story: ${uploadedCharacterNames.join(', ')}\n\n`;
-            }
+                recorder.beginStage('storyAnalysis');
+                let storyElements: StoryElements;
+                if (runTextFiles.length > 0) {
+                    setStatusMessage('Analyzing uploaded files for story elements...');
+                    storyElements = await analyzeStoryInputs(runTextFiles, signal);
+                } else {
+                    storyElements = {
+                        characters: 'To be determined by the writer based on the story prompt.',
+                        story: 'To be determined by the writer based on the story prompt.',
+                        today: 'To be determined by the writer based on the story prompt.'
+                    };
+                }
+                recorder.info('Story elements:', [
+                    `Characters: ${storyElements.characters}`,
+                    `Core Story: ${storyElements.story}`,
+                    `Daily Theme: ${storyElements.today}`,
+                    `Inspirational Event: ${finalStoryPrompt}`,
+                ].join('\n'));
 
-            report += '--- STORY ANALYSIS ---\n';
-            report += `Characters: ${storyElements.characters}\n`;
-            report += `Core Story: ${storyElements.story}\n`;
-            report += `Daily Theme: ${storyElements.today}\n`;
-            report += `Inspirational Event: ${finalStoryPrompt}\n\n`;
+                checkpoint.storyElements = storyElements;
+                await persistCheckpoint();
+            }
+            const storyElements = checkpoint.storyElements;
 
-            setStatusMessage('Constructing story prompt...');
-            const finalPrompt = `You are a creative writer for a sci-fi comedy series. Your task is to write a new short movie script based on a series premise and a user-provided event.
+            let script: Script;
+            if (checkpoint.script) {
+                script = checkpoint.script;
+            } else if (runImportedScript) {
+                recorder.beginStage('script');
+                recorder.info(`Using uploaded Fountain screenplay "${runImportedScript.source_file}" (${runImportedScript.scene_elements.length} elements). Script generation was skipped.`);
+                script = runImportedScript;
+            } else {
+                recorder.beginStage('script');
+                setStatusMessage('Constructing story prompt...');
+                let continuityText = '';
+                if (runSettings.continuityEpisodes > 0) {
+                    const loggedEpisodes = await listEpisodes().catch(e => {
+                        console.warn('Failed to load the series log:', e);
+                        return [] as EpisodeRecord[];
+                    });
+                    const relevantEpisodes = selectRelevantEpisodes(
+                        loggedEpisodes,
+                        [storyElements.characters, storyElements.today, finalStoryPrompt, uploadedCharacterNames.join(', ')].join('\n'),
+                        runSettings.continuityEpisodes
+                    );
+                    if (relevantEpisodes.length > 0) {
+                        continuityText = describeEpisodesForPrompt(relevantEpisodes, loggedEpisodes);
+                        recorder.info(`Series continuity: using ${relevantEpisodes.length} of ${loggedEpisodes.length} logged episode(s): ${relevantEpisodes.map(e => `"${e.title}"`).join(', ')}`);
+                    }
+                }
+                const finalPrompt = `You are a creative writer for a sci-fi comedy series. Your task is to write a new short movie script based on a series premise and a user-provided event.
 
 **Series Premise:**
 ---
@@ -281,6 +522,12 @@ ${storyElements.story}
 **Daily Theme:**
 ${storyElements.today}
 ---
+${continuityText ? `
+**Series Continuity (Previous Episodes):**
+Keep continuity with these earlier episodes: characters remember what happened, and a callback to an earlier event or running gag is welcome where it fits naturally. Do not retell these plots.
+---
+${continuityText}
+---` : ''}
 ${uploadedCharacterNames.length > 0 ? `
 **Mandatory Characters:**
 You MUST include characters named: ${uploadedCharacterNames.join(', ')}. These characters have visual references provided by the user. Integrate them naturally into the story.
@@ -295,229 +542,571 @@ Weave the essence of this user-provided event into your story. It should serve a
 
 The final output must be a creative and engaging movie script. Return ONLY the JSON object conforming to the provided schema. Do not include any markdown formatting or any other text outside the JSON structure.
 `;
-            report += '--- SCRIPT GENERATION PROMPT ---\n';
-            report += `${finalPrompt}\n\n`;
-
-            setStatusMessage('Generating movie script...');
-            const script = await generateStory(finalPrompt);
+                setStatusMessage('Generating movie script...');
+                script = await generateStory(finalPrompt, signal);
+                recorder.info(`Script "${script.title}" generated with ${script.scene_elements.length} elements.`);
+            }
+            if (!checkpoint.script) {
+                checkpoint.script = script;
+                await persistCheckpoint();
+            }
             setScriptData(script);
-            report += '--- SCRIPT GENERATED SUCCESSFULLY ---\n\n';
-            
-            const charactersFile = textFiles.find(f => f.name.toLowerCase().includes('character'));
-            const characterDescriptionSource = charactersFile ? charactersFile.content : storyElements.characters + '\n' + script.scene_elements.map(e => e.content || '').join('\n');
-            setStatusMessage('Analyzing character descriptions...');
-            report += '--- LLM CHARACTER ANALYSIS ---\n';
-            const analyzedCharacters = await analyzeCharacterDescriptions(characterDescriptionSource);
-            report += `LLM Analysis Result (JSON):\n${JSON.stringify(analyzedCharacters, null, 2)}\n\n`;
+
+            if (checkpoint.scriptReviewed === false) {
+                recorder.finish('awaitingReview');
+                await persistCheckpoint();
+                setScriptReview(checkpoint);
+                return;
+            }
             
+            if (!checkpoint.analyzedCharacters) {
+                const charactersFile = runTextFiles.find(f => f.name.toLowerCase().includes('character'));
+                const characterDescriptionSource = charactersFile ? charactersFile.content : storyElements.characters + '\n' + script.scene_elements.map(e => e.content || '').join('\n');
+                setStatusMessage('Analyzing character descriptions...');
+                recorder.beginStage('characterAnalysis');
+                const modelAnalysis = await analyzeCharacterDescriptions(characterDescriptionSource, signal);
+                recorder.info('Analysis result (JSON):', JSON.stringify(modelAnalysis, null, 2));
+                checkpoint.analyzedCharacters = modelAnalysis.map(char => {
+                    const libraryCharacter = findLibraryCharacter(runLibraryCharacters, char.name);
+                    if (!libraryCharacter?.descriptors) return char;
+                    recorder.info(`Using stored library descriptors for ${char.name} (library entry "${libraryCharacter.name}").`);
+                    return applyLibraryDescriptors(char, libraryCharacter);
+                });
+                await persistCheckpoint();
+            }
+            const analyzedCharacters = checkpoint.analyzedCharacters;
+            setAnalyzedCharacters(analyzedCharacters);
+
+            // --- Character Mapping ---
+            // Every name a character goes by is grouped into one identity, and each identity gets
+            // one reference image, which the user confirms before any image is generated.
+            if (!checkpoint.characterMapping) {
+                recorder.beginStage('characterMapping');
+                const identities = buildAliasRegistry({
+                    analyzedNames: analyzedCharacters.map(char => char.name),
+                    dialogueCues: script.scene_elements
+                        .filter((el): el is DialogueBlock => el.type === 'dialogue_block')
+                        .map(el => el.character),
+                    fileNames: Object.keys(uploadedCharacterImages),
+                    libraryNames: runLibraryCharacters.map(c => [c.name, ...c.aliases]),
+                });
+                const references = mappingReferencesFor(checkpoint);
+                checkpoint.characterMapping = proposeCharacterMapping(identities, references, runSettings.characterMatchThreshold);
+                recorder.info('Proposed character mapping:', checkpoint.characterMapping.map(describeCharacterMapping).join('\n'));
+                // Checkpoints from before the mapping existed may already have images to stay consistent with.
+                if (identities.length > 0 && references.length > 0 && checkpoint.images.length === 0) {
+                    checkpoint.mappingReviewed = false;
+                }
+                await persistCheckpoint();
+            }
+            const characterMapping = checkpoint.characterMapping;
+
+            if (checkpoint.mappingReviewed === false) {
+                recorder.finish('awaitingReview');
+                await persistCheckpoint();
+                setMappingReview(checkpoint);
+                return;
+            }
+
             // --- Character Portrait Generation ---
-            setStatusMessage('Generating character portraits...');
-            report += '--- CHARACTER PORTRAIT GENERATION ---\n\n';
-            const newPortraits: Record<string, GeneratedCharacterPortrait> = {};
-            const charactersToGenerate = analyzedCharacters.filter(char => !characterImages[char.name.toLowerCase().trim()]);
+            // Only for characters mapped to no reference, unless a reference carries their exact name.
+            const newPortraits = checkpoint.portraits;
+            const referenceNames = mappingReferencesFor(checkpoint).map(ref => normalizeCharacterName(ref.name));
+            const charactersToGenerate = checkpoint.portraitsComplete
+                ? []
+                : analyzedCharacters.filter(char => !newPortraits[char.name]
+                    && !referenceNames.includes(normalizeCharacterName(char.name))
+                    && !characterMapping.find(entry => normalizeCharacterName(entry.character) === normalizeCharacterName(char.name))?.reference);
+            if (charactersToGenerate.length > 0) {
+                setStatusMessage('Generating character portraits...');
+                recorder.beginStage('portraits');
+            }
             
             const portraitPromises = charactersToGenerate.map(async (char, i) => {
+                const label = `Portrait ${i + 1}: ${char.name}`;
+                const startedMs = Date.now();
                 try {
                     setStatusMessage(`Generating portrait for ${char.name} (${i + 1}/${charactersToGenerate.length})...`);
                     const descriptorString = [char.race, char.gender, char.voiceDescription, char.otherDescriptors].filter(Boolean).join(', ');
                     const portraitPrompt = `Photorealistic, cinematic, full body portrait of a character named ${char.name}. Description: ${descriptorString}.`;
-                    const imageGenResult = await generateImage(portraitPrompt, undefined, undefined, finalStylePrompt, '16:9');
-                    
-                    report += `[PORTRAIT ${i + 1}] Character: ${char.name}\n`;
-                    report += `  - Prompt: "${imageGenResult.finalPrompt}"\n`;
-                    report += `  - Status: ${imageGenResult.imageBase64 ? 'Success' : 'Failed'}\n\n`;
+                    const imageGenResult = await generateImage(portraitPrompt, undefined, undefined, finalStylePrompt, runSettings.aspectRatio, undefined, signal);
+
+                    recorder.call({
+                        kind: 'image', label, model: runSettings.models.image,
+                        status: imageGenResult.imageBase64 ? 'success' : 'failed',
+                        prompt: imageGenResult.finalPrompt,
+                        safetyFlagged: imageGenResult.wasRewritten,
+                        usage: imageGenResult.usage,
+                    }, startedMs);
 
                     if (imageGenResult.imageBase64) {
                         const newPortrait = { base64: imageGenResult.imageBase64, mimeType: 'image/png', prompt: imageGenResult.finalPrompt };
                         newPortraits[char.name] = newPortrait;
                         setGeneratedCharacterPortraits(prev => ({...prev, [char.name]: newPortrait}));
+                        await persistCheckpoint();
                     }
                 } catch (e) {
-                    report += `[PORTRAIT ${i + 1}] Character: ${char.name} - GENERATION FAILED\n  - Error: ${e instanceof Error ? e.message : String(e)}\n\n`;
+                    if (signal.aborted) return;
+                    recorder.call({ kind: 'image', label, model: runSettings.models.image, status: 'failed', error: e instanceof Error ? e.message : String(e) }, startedMs);
                 }
             });
             await Promise.all(portraitPromises);
-
-            const allAvailableCharacterImages: Record<string, { name: string, base64: string; mimeType: string }> = {};
-            for (const [key, value] of Object.entries(characterImages)) { 
-                const charImage = value as CharacterImage;
-                allAvailableCharacterImages[key.toLowerCase()] = { name: key, ...charImage };
-            }
-            for (const [key, value] of Object.entries(newPortraits)) {
-                allAvailableCharacterImages[key.toLowerCase()] = { name: key, ...(value as GeneratedCharacterPortrait) };
+            throwIfCancelled();
+            if (!checkpoint.portraitsComplete) {
+                checkpoint.portraitsComplete = true;
+                for (const entry of characterMapping) {
+                    const portraitName = Object.keys(newPortraits).find(name => normalizeCharacterName(name) === normalizeCharacterName(entry.character));
+                    if (entry.reference || !portraitName) continue;
+                    entry.reference = portraitName;
+                    entry.source = 'portrait';
+                }
+                await persistCheckpoint();
             }
+            recorder.report.characterMapping = characterMapping;
+
+            // Resolves the names a panel prompt uses to characters and those to their mapped reference
+            // sets, then picks the images from those sets that best suit the panel, up to the cap.
+            const characterIdentities = characterMapping.map(entry => ({ name: entry.character, aliases: entry.aliases }));
+            const referencesByName = new Map(mappingReferencesFor(checkpoint).map(ref => [ref.name, ref]));
+            const referencesForPanel = (names: string[], panelPrompt: string) => {
+                const resolvedNames = names.filter(name => normalizeCharacterName(name)).map(requested => {
+                    const resolved = resolveCharacterName(characterIdentities, requested, runSettings.characterMatchThreshold);
+                    const entry = resolved.identity && characterMapping.find(m => m.character === resolved.identity!.name);
+                    return { requested, resolved, entry, set: entry?.reference ? referencesByName.get(entry.reference) : undefined };
+                });
+                // Two names of one character can both appear in a prompt.
+                const sets = resolvedNames.flatMap(({ set }) => set ? [set] : []).filter((set, i, all) => all.indexOf(set) === i);
+                const images = selectReferenceImages(sets, panelPrompt, runSettings.maxReferenceImages);
+                const matches: CharacterMatch[] = resolvedNames.map(({ requested, resolved, entry, set }) => ({
+                    requested, character: entry?.character ?? null, reference: set?.name ?? null,
+                    distance: resolved.distance, normalizedDistance: resolved.normalizedDistance,
+                    accepted: images.some(img => img.name === set?.name),
+                }));
+                return { matches, images };
+            };
 
             // --- Scene Image Generation ---
-            report += '--- SCENE ASSET GENERATION LOG ---\n\n';
-            const scenesWithAction = script.scene_elements
-                .map((el, index) => ({ el, index }))
-                .filter(({ el }) => el.type === 'action' && el.content);
-            
-            const scenesToGenerate = scenesWithAction.slice(0, 20);
-            if (scenesWithAction.length > 20) {
-                 report += `NOTE: Found ${scenesWithAction.length} actions with content, but limiting image generation to the first 20 to manage processing time.\n\n`;
-            }
+            if (!checkpoint.cohesivePrompts) {
+                recorder.beginStage('storyboardPrompts');
+                const scenesWithAction = script.scene_elements
+                    .map((el, index) => ({ el, index }))
+                    .filter(({ el }) => el.type === 'action' && el.content);
+                
+                const scenesToGenerate = scenesWithAction.slice(0, runSettings.maxSceneImages);
+                if (scenesWithAction.length > runSettings.maxSceneImages) {
+                     recorder.info(`Found ${scenesWithAction.length} actions with content, but limiting image generation to the first ${runSettings.maxSceneImages} to manage processing time.`);
+                }
 
-            setStatusMessage('Generating cohesive storyboard prompts...');
-            
-            // Get characters who have dialogue in the script
-            const charactersInScriptDialogue = [...new Set(
-                script.scene_elements
-                    .filter(el => el.type === 'dialogue_block')
-                    .map(el => (el as DialogueBlock).character.toUpperCase().trim())
-            )];
-    
-            // Combine all known character names, ensuring uploaded ones are included
-            const allKnownCharacterNames = [...new Set([...charactersInScriptDialogue, ...uploadedCharacterNames.map(name => name.toUpperCase().trim())])];
-    
-            // Build the description string for the prompt generator
-            const allCharDescriptionsForPrompts = allKnownCharacterNames.map(charNameUpper => {
-                const charData = analyzedCharacters.find(c => c.name.toUpperCase().trim() === charNameUpper);
-                const description = charData ? ` (${[charData.race, charData.gender, charData.otherDescriptors].filter(Boolean).join(', ')})` : '';
+                setStatusMessage('Generating cohesive storyboard prompts...');
                 
-                const originalName = Object.keys(characterImages).find(k => k.toUpperCase().trim() === charNameUpper) || 
-                                     analyzedCharacters.find(c => c.name.toUpperCase().trim() === charNameUpper)?.name ||
-                                     charNameUpper;
-    
-                const isMandatory = uploadedCharacterNames.some(upName => upName.toUpperCase().trim() === charNameUpper);
+                // Get characters who have dialogue in the script
+                const charactersInScriptDialogue = [...new Set(
+                    script.scene_elements
+                        .filter(el => el.type === 'dialogue_block')
+                        .map(el => (el as DialogueBlock).character.toUpperCase().trim())
+                )];
+        
+                // Combine all known character names, ensuring uploaded ones are included
+                const allKnownCharacterNames = [...new Set([...charactersInScriptDialogue, ...uploadedCharacterNames.map(name => name.toUpperCase().trim())])];
+        
+                // Build the description string for the prompt generator
+                const allCharDescriptionsForPrompts = allKnownCharacterNames.map(charNameUpper => {
+                    const charData = analyzedCharacters.find(c => c.name.toUpperCase().trim() === charNameUpper);
+                    const description = charData ? ` (${[charData.race, charData.gender, charData.otherDescriptors].filter(Boolean).join(', ')})` : '';
+                    
+                    const originalName = Object.keys(runCharacterImages).find(k => k.toUpperCase().trim() === charNameUpper) || 
+                                         analyzedCharacters.find(c => c.name.toUpperCase().trim() === charNameUpper)?.name ||
+                                         charNameUpper;
+        
+                    const isMandatory = uploadedCharacterNames.some(upName => upName.toUpperCase().trim() === charNameUpper);
+                    
+                    return `${originalName}${description}${isMandatory ? ' [MANDATORY VISUAL REFERENCE PROVIDED]' : ''}`;
+                }).join('; ');
                 
-                return `${originalName}${description}${isMandatory ? ' [MANDATORY VISUAL REFERENCE PROVIDED]' : ''}`;
-            }).join('; ');
-            
-            const cohesivePrompts = await generateCohesiveImagePrompts(
-                scenesToGenerate.map(s => ({ sceneIndex: s.index, content: s.el.content || ''})),
-                allCharDescriptionsForPrompts,
-                finalStylePrompt
-            );
-            
+                checkpoint.cohesivePrompts = await generateCohesiveImagePrompts(
+                    scenesToGenerate.map(s => ({ sceneIndex: s.index, content: s.el.content || ''})),
+                    allCharDescriptionsForPrompts,
+                    finalStylePrompt,
+                    runSettings.enforceMediumShot,
+                    signal
+                );
+                await persistCheckpoint();
+            }
+            const cohesivePrompts = checkpoint.cohesivePrompts;
+            const remainingPrompts = cohesivePrompts.filter(({ sceneIndex }) => !checkpoint.images.some(img => img.sceneIndex === sceneIndex));
+            const scenes = buildSceneGraph(script);
+            if (remainingPrompts.length > 0) {
+                recorder.beginStage('images');
+                const estimate = estimateImageCalls(remainingPrompts.map(p => {
+                    const position = cohesivePrompts.indexOf(p);
+                    const chained = position > 0 && isSameLocation(sceneForElement(scenes, cohesivePrompts[position - 1].sceneIndex), sceneForElement(scenes, p.sceneIndex));
+                    const slugline = sceneForElement(scenes, p.sceneIndex)?.slugline;
+                    const hasSet = Boolean(slugline && matchLocationReference(slugline.location, Object.keys(runLocationImages)));
+                    return {
+                        prompt: applyImageStyle(p.prompt, finalStylePrompt),
+                        referenceImages: referencesForPanel(p.characters ?? [], p.prompt).images.length + (chained ? 1 : 0) + (hasSet ? 1 : 0),
+                    };
+                }), runSettings.models.image, runSettings.prices);
+                recorder.info(`Pre-flight estimate: ${describeEstimate(estimate)}`);
+            }
+
             let previousImageBase64: string | undefined = undefined;
-            const normalizeForMatch = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+            let previousPanelScene: Scene | undefined = undefined;
 
-            const finalGeneratedImages: GeneratedImage[] = [];
+            const finalGeneratedImages = checkpoint.images;
 
+            // Scene images stay sequential: each frame is conditioned on the previous one for continuity,
+            // except across a change of location, where the previous frame would drag the old set along.
             for (let i = 0; i < cohesivePrompts.length; i++) {
+                throwIfCancelled();
                 const { sceneIndex, prompt: imagePromptText, characters: charactersInPrompt } = cohesivePrompts[i];
-                const actionElement = script.scene_elements[sceneIndex];
-                let imageReport = '';
+                const panelScene = sceneForElement(scenes, sceneIndex);
+                if (previousPanelScene && !isSameLocation(previousPanelScene, panelScene)) {
+                    if (previousImageBase64) recorder.info(`Continuity reset before scene image ${i + 1}: location changed from "${describeScene(previousPanelScene)}" to "${describeScene(panelScene)}".`);
+                    previousImageBase64 = undefined;
+                }
+                previousPanelScene = panelScene;
+                const alreadyGenerated = finalGeneratedImages.find(img => img.sceneIndex === sceneIndex);
+                if (alreadyGenerated) {
+                    previousImageBase64 = alreadyGenerated.base64;
+                    continue;
+                }
+                const label = `Scene image ${i + 1}/${cohesivePrompts.length}`;
+                let characterMatches: CharacterMatch[] = [];
+                const startedMs = Date.now();
                 try {
-                    const actionContent = actionElement.content || '';
-                    const characterImagesForGen: { name: string; base64: string; mimeType: string }[] = [];
-                    let characterImagesUsedLog: string[] = [];
-
-                    if (charactersInPrompt && charactersInPrompt.length > 0) {
-                        for (const charName of charactersInPrompt) {
-                            const normalizedCharName = normalizeForMatch(charName);
-                            if (!normalizedCharName || Object.keys(allAvailableCharacterImages).length === 0) continue;
-
-                            let bestMatchKey: string | null = null;
-                            let minDistance = Infinity;
-                            for (const key of Object.keys(allAvailableCharacterImages)) {
-                                const normalizedKey = normalizeForMatch(key);
-                                const distance = levenshteinDistance(normalizedCharName, normalizedKey);
-                                if (distance < minDistance) {
-                                    minDistance = distance;
-                                    bestMatchKey = key;
-                                }
-                            }
-                            if (bestMatchKey && (minDistance / Math.max(normalizedCharName.length, normalizeForMatch(bestMatchKey).length)) < 0.5) {
-                                const matchedImage = allAvailableCharacterImages[bestMatchKey];
-                                characterImagesForGen.push({
-                                    name: matchedImage.name,
-                                    base64: matchedImage.base64,
-                                    mimeType: matchedImage.mimeType
-                                });
-                                characterImagesUsedLog.push(`${matchedImage.name} (Match for: ${charName}, dist: ${minDistance})`);
-                            }
-                        }
-                    }
+                    const panelReferences = referencesForPanel(charactersInPrompt ?? [], imagePromptText);
+                    characterMatches = panelReferences.matches;
+                    const characterImagesForGen = panelReferences.images;
+
+                    // The panel's set image, matched on the slugline location.
+                    const locationKey = panelScene?.slugline ? matchLocationReference(panelScene.slugline.location, Object.keys(runLocationImages)) : null;
+                    const locationImageForGen = locationKey ? { name: locationKey, ...runLocationImages[locationKey] } : undefined;
 
                     setStatusMessage(`Generating scene image ${i + 1} of ${cohesivePrompts.length}...`);
                     
-                    const imageGenResult = await generateImage(imagePromptText, characterImagesForGen, previousImageBase64, finalStylePrompt, '16:9');
-                    
-                    imageReport += `[IMAGE ${i + 1}/${cohesivePrompts.length}] Scene Index: ${sceneIndex}\n`;
-                    imageReport += `  - Source Action: "${actionContent}"\n`;
-                    imageReport += `  - Cohesive Prompt: "${imagePromptText}"\n`;
-                    imageReport += `  - Character Images Used: ${characterImagesUsedLog.length > 0 ? characterImagesUsedLog.join(', ') : 'None'}\n`;
-                    imageReport += `  - Previous Scene Used for Continuity: ${previousImageBase64 ? 'Yes' : 'No'}\n`;
-                    imageReport += `  - Final Prompt Sent: "${imageGenResult.finalPrompt}"\n`;
-                    imageReport += `  - Was Rewritten For Safety: ${imageGenResult.wasRewritten}\n`;
-                    imageReport += `  - Generation Status: ${imageGenResult.imageBase64 ? 'Success' : 'Failed'}\n\n`;
+                    const imageGenResult = await generateImage(imagePromptText, characterImagesForGen, previousImageBase64, finalStylePrompt, runSettings.aspectRatio, locationImageForGen, signal);
+
+                    recorder.call({
+                        kind: 'image', label, model: runSettings.models.image, sceneIndex,
+                        status: imageGenResult.imageBase64 ? 'success' : 'failed',
+                        prompt: imageGenResult.finalPrompt,
+                        safetyFlagged: imageGenResult.wasRewritten,
+                        characterMatches,
+                        continuityImageUsed: Boolean(previousImageBase64),
+                        usage: imageGenResult.usage,
+                        details: {
+                            'Source Action': script.scene_elements[sceneIndex].content || '',
+                            'Scene': describeScene(panelScene),
+                            ...(characterImagesForGen.length > 0 ? { 'Reference Images': describeReferenceImages(characterImagesForGen) } : {}),
+                            ...(Object.keys(runLocationImages).length > 0 ? { 'Location Reference': locationKey ?? 'None matched' } : {}),
+                        },
+                    }, startedMs);
 
                     if (imageGenResult.imageBase64) {
                         const newImg = { 
                             sceneIndex, 
                             imageUrl: `data:image/png;base64,${imageGenResult.imageBase64}`, 
                             base64: imageGenResult.imageBase64,
-                            prompt: imageGenResult.finalPrompt
+                            prompt: imageGenResult.finalPrompt,
+                            panelPrompt: imagePromptText,
+                            referenceNames: [...new Set(characterImagesForGen.map(c => c.name))]
                         };
                         finalGeneratedImages.push(newImg);
-                        setGeneratedImages(prev => [...prev, newImg]);
+                        setGeneratedImages(prev => [...prev, newImg].sort((a, b) => a.sceneIndex - b.sceneIndex));
                         previousImageBase64 = imageGenResult.imageBase64;
                     }
-                    report += imageReport;
+                    await persistCheckpoint();
                 } catch (e) {
-                    imageReport += `[IMAGE ${i + 1}/${cohesivePrompts.length}] Scene Index: ${sceneIndex} - GENERATION FAILED\n  - Error: ${e instanceof Error ? e.message : String(e)}\n\n`;
-                    report += imageReport;
+                    if (signal.aborted) throw e;
+                    recorder.call({
+                        kind: 'image', label, model: runSettings.models.image, sceneIndex, status: 'failed',
+                        prompt: imagePromptText, characterMatches, error: e instanceof Error ? e.message : String(e),
+                    }, startedMs);
                 }
             }
 
             // --- Secondary Dialogue Processing (HS3000) ---
-            setStatusMessage('Generating unique HS3000 dialogue entries...');
-            const dialogueInputs: { character: string, originalDialogue: string, isDuplicate: boolean }[] = [];
-            const seenDialogueIndices = new Set<number>();
-
-            for (const img of finalGeneratedImages) {
-                const diag = getDialogueForScene(img.sceneIndex, script);
-                if (diag) {
-                    const isDuplicate = seenDialogueIndices.has(diag.elementIndex);
-                    dialogueInputs.push({
-                        character: diag.character,
-                        originalDialogue: diag.dialogue,
-                        isDuplicate: isDuplicate
-                    });
-                    seenDialogueIndices.add(diag.elementIndex);
+            if (!checkpoint.hs3000Lines) {
+                recorder.beginStage('hs3000');
+                setStatusMessage('Generating unique HS3000 dialogue entries...');
+                const dialogueInputs: { character: string, originalDialogue: string, isDuplicate: boolean }[] = [];
+                const dialoguePanels: number[] = [];
+                const seenDialogueIndices = new Set<number>();
+
+                for (const img of [...finalGeneratedImages].sort((a, b) => a.sceneIndex - b.sceneIndex)) {
+                    const diag = getDialogueForScene(img.sceneIndex, script);
+                    if (diag) {
+                        const isDuplicate = seenDialogueIndices.has(diag.elementIndex);
+                        dialogueInputs.push({
+                            character: diag.character,
+                            originalDialogue: diag.dialogue,
+                            isDuplicate: isDuplicate
+                        });
+                        dialoguePanels.push(img.sceneIndex);
+                        seenDialogueIndices.add(diag.elementIndex);
+                    }
                 }
+
+                // Only set once the lines exist: a cancelled or failed run saves the checkpoint, and
+                // a resumed run skips this stage whenever it holds any lines at all.
+                if (dialogueInputs.length > 0) {
+                    // Lines come back in input order, one per panel with dialogue.
+                    const lines = (await generateHS3000Dialogue(dialogueInputs, signal))
+                        .map((line, i) => ({ ...line, sceneIndex: dialoguePanels[i] }));
+                    checkpoint.hs3000Lines = lines;
+                    setHs3000Lines(lines);
+                    recorder.info('HS3000 dialogue:', lines.map(l => `${l.character}: "${l.dialogue}"`).join('\n'));
+                } else {
+                    checkpoint.hs3000Lines = [];
+                    recorder.info('No generated scene image has nearby dialogue; no HS3000 lines were written.');
+                }
+                await persistCheckpoint();
             }
 
-            if (dialogueInputs.length > 0) {
-                const lines = await generateHS3000Dialogue(dialogueInputs);
-                setHs3000Lines(lines);
-                report += '--- HS3000 DIALOGUE GENERATED ---\n';
-                report += lines.map(l => `${l.character}: "${l.dialogue}"`).join('\n') + '\n\n';
+            // --- Dialogue Voice Track Generation (TTS) ---
+            const dialogueBlocks = script.scene_elements
+                .map((el, index) => ({ el, index }))
+                .filter(({ el }) => el.type === 'dialogue_block') as { el: DialogueBlock; index: number }[];
+
+            const recordingsToMake = dialogueBlocks.filter(({ index }) => !checkpoint.audio.some(a => a.sceneIndex === index));
+
+            if (recordingsToMake.length > 0) {
+                recorder.beginStage('audio');
+                // Voice casting is deterministic, so a resumed run keeps every character's voice.
+                const voiceAssignments = assignCharacterVoices(dialogueBlocks.map(({ el }) => el.character), analyzedCharacters);
+                recorder.info('Voice cast:', Object.entries(voiceAssignments)
+                    .map(([name, v]) => `- ${name}: ${v.voiceName}${v.voiceDescription ? ` (described as: ${v.voiceDescription})` : ''}`)
+                    .join('\n'));
+
+                // Recordings are independent, so they run concurrently; the request scheduler caps how many
+                // reach the TTS model at once. Calls are recorded in the order they finish.
+                setStatusMessage(`Recording ${recordingsToMake.length} dialogue line(s)...`);
+                let recordedCount = 0;
+                await Promise.all(dialogueBlocks.map(async ({ el: block, index: sceneIndex }, i) => {
+                    if (!recordingsToMake.includes(dialogueBlocks[i])) return;
+                    const characterKey = block.character.toUpperCase().trim();
+                    const spoken = block.elements.filter(e => e.type === 'dialogue').map(e => e.content).join(' ');
+                    if (!spoken) return;
+                    const parentheticals = block.elements.filter(e => e.type === 'parenthetical').map(e => e.content.replace(/^\(|\)$/g, ''));
+                    const voice = voiceAssignments[characterKey];
+                    const call = {
+                        kind: 'speech' as const, label: `Dialogue ${i + 1}/${dialogueBlocks.length}`, model: runSettings.models.speech, sceneIndex,
+                        details: { Character: characterKey, Voice: voice.voiceName },
+                    };
+                    const startedMs = Date.now();
+                    try {
+                        const direction = [...parentheticals, voice.voiceDescription].filter(Boolean).join(', ');
+                        const speechResult = await generateSpeech(spoken, voice.voiceName, direction, signal);
+                        setStatusMessage(`Recorded dialogue ${++recordedCount} of ${recordingsToMake.length} (${characterKey})...`);
+                        recorder.call({ ...call, status: speechResult.audioBlob ? 'success' : 'failed', prompt: speechResult.finalPrompt, usage: speechResult.usage }, startedMs);
+
+                        if (speechResult.audioBlob) {
+                            const newAudio = { sceneIndex, audioBlob: speechResult.audioBlob };
+                            checkpoint.audio.push(newAudio);
+                            setGeneratedAudio(prev => [...prev, newAudio]);
+                            await persistCheckpoint();
+                        }
+                    } catch (e) {
+                        if (signal.aborted) return;
+                        recorder.call({ ...call, status: 'failed', error: e instanceof Error ? e.message : String(e) }, startedMs);
+                    }
+                }));
+                throwIfCancelled();
             }
-            
-            setGenerationReport(report);
+
+            // --- Series Log ---
+            // A failed summary only costs this episode's entry in the log, so it doesn't fail the run.
+            // Placeholder episodes from the mock provider would pollute later scripts' continuity.
+            recorder.beginStage('seriesLog');
+            if (checkpoint.report.provider === 'mock') {
+                recorder.info('Run with the mock provider; not added to the series log.');
+            } else {
+                try {
+                    setStatusMessage('Updating the series log...');
+                    const priorEpisodes = await listEpisodes();
+                    // Re-running an imported script would otherwise log the same episode again.
+                    const loggedEpisode = findLoggedEpisode(priorEpisodes, script);
+                    if (loggedEpisode) {
+                        recorder.info(`Already logged as Episode ${priorEpisodes.indexOf(loggedEpisode) + 1}: "${loggedEpisode.title}"; not added again.`);
+                    } else {
+                        const summary = await summarizeEpisode(script, knownRunningGags(priorEpisodes), signal);
+                        const episode = createEpisodeRecord(script, summary, priorEpisodes);
+                        await saveEpisode(episode);
+                        setSeriesEpisodes([...priorEpisodes, episode]);
+                        recorder.info(`Logged as Episode ${priorEpisodes.length + 1}: "${episode.title}"`, [
+                            `Synopsis: ${episode.synopsis}`,
+                            `New Characters: ${episode.newCharacters.length > 0 ? episode.newCharacters.join(', ') : 'None'}`,
+                            `Running Gags: ${episode.runningGags.length > 0 ? episode.runningGags.join('; ') : 'None'}`,
+                        ].join('\n'));
+                    }
+                } catch (e) {
+                    if (signal.aborted) throw e;
+                    recorder.error(`Series log update failed: ${e instanceof Error ? e.message : String(e)}`);
+                }
+            }
+
+            recorder.finish('completed');
+            setGenerationReport(recorder.snapshot());
             setGenerationComplete(true);
+            await clearCheckpoint().catch(e => console.warn('Failed to clear generation checkpoint:', e));
     
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during asset generation.';
-            setError(errorMessage);
-            console.error("Asset Generation Error:", err);
-            setGenerationReport(prev => prev + `--- GENERATION FAILED ---\n\nError: ${errorMessage}\n`);
+            if (signal.aborted) {
+                recorder.warn('Generation cancelled by the user. Assets produced before cancelling were kept.');
+                recorder.finish('cancelled');
+            } else {
+                const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during asset generation.';
+                setError(`${errorMessage} Completed stages were saved; use "Resume Generation" to continue.`);
+                console.error("Asset Generation Error:", err);
+                recorder.error(`Generation failed: ${errorMessage}`);
+                recorder.finish('failed');
+            }
+            setGenerationReport(recorder.snapshot());
+            await persistCheckpoint();
+            setPendingCheckpoint(checkpoint);
         } finally {
+            cancelControllerRef.current = null;
+            setServiceLogListener(null);
             setIsGenerating(false);
+            setIsCancelling(false);
             setStatusMessage('');
             setIsReadyForDownload(true);
         }
-    }, [textFiles, characterImages, stylePrompt, storyPrompt]);
+    }, [textFiles, characterImages, locationImages, stylePrompt, storyPrompt, importedScript, settings, libraryCharacters, selectedLibraryIds]);
+
+    const handleCancelGeneration = useCallback(() => {
+        setIsCancelling(true);
+        setStatusMessage('Cancelling...');
+        cancelControllerRef.current?.abort();
+    }, []);
+
+    const handleDiscardCheckpoint = useCallback(async () => {
+        setPendingCheckpoint(null);
+        await clearCheckpoint().catch(e => console.warn('Failed to clear generation checkpoint:', e));
+    }, []);
+
+    const handleApproveScript = useCallback((script: Script, issues: string[]) => {
+        if (!scriptReview?.script) return;
+        const original = scriptReview.script;
+        const recorder = createReportRecorder(structuredClone(scriptReview.report));
+        recorder.beginStage('scriptReview');
+        if (JSON.stringify(original) === JSON.stringify(script)) {
+            recorder.info('Script approved without changes.');
+        } else {
+            recorder.info(
+                `Script edited before storyboard generation: "${script.title}" with ${script.scene_elements.length} elements (was "${original.title}" with ${original.scene_elements.length}).`,
+                JSON.stringify(script, null, 2)
+            );
+        }
+        if (issues.length > 0) {
+            recorder.warn('Repairs made while validating the edited script:', issues.map(issue => `- ${issue}`).join('\n'));
+        }
+        recorder.finishStage();
+        handleGenerate({ ...scriptReview, script, scriptReviewed: true, report: recorder.report }, true);
+    }, [scriptReview, handleGenerate]);
+
+    const handleApproveMapping = useCallback((mapping: CharacterMapping[]) => {
+        if (!mappingReview?.characterMapping) return;
+        const proposed = mappingReview.characterMapping;
+        const confirmed = mapping.map((entry, i) => entry.reference === proposed[i].reference
+            ? entry
+            : { ...entry, source: 'user' as const, proposed: proposed[i].reference });
+        const recorder = createReportRecorder(structuredClone(mappingReview.report));
+        recorder.beginStage('characterMapping', 'Character Mapping Confirmed');
+        const changed = confirmed.filter(entry => entry.source === 'user');
+        recorder.info(
+            changed.length === 0 ? 'Character mapping approved without changes.' : `Character mapping approved with ${changed.length} change(s).`,
+            confirmed.map(describeCharacterMapping).join('\n')
+        );
+        recorder.report.characterMapping = confirmed;
+        recorder.finishStage();
+        handleGenerate({ ...mappingReview, characterMapping: confirmed, mappingReviewed: true, report: recorder.report }, true);
+    }, [mappingReview, handleGenerate]);
+
+    const handleDiscardReview = useCallback(async () => {
+        setScriptReview(null);
+        setMappingReview(null);
+        setScriptData(null);
+        setIsReadyForDownload(false);
+        await handleDiscardCheckpoint();
+    }, [handleDiscardCheckpoint]);
+
+    const handleSaveLibraryCharacter = useCallback(async (character: LibraryCharacter) => {
+        try {
+            const saved = await saveLibraryCharacter(character);
+            setLibraryCharacters(prev => [...prev.filter(c => c.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (e) {
+            setError(`Failed to save "${character.name}" to the character library: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, []);
+
+    const handleDeleteLibraryCharacter = useCallback(async (id: string) => {
+        try {
+            await deleteLibraryCharacter(id);
+            setLibraryCharacters(prev => prev.filter(c => c.id !== id));
+            setSelectedLibraryIds(prev => prev.filter(selectedId => selectedId !== id));
+        } catch (e) {
+            setError(`Failed to delete the library character: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, []);
+
+    const handleAddToLibrary = (name: string, image: CharacterImage) => {
+        const descriptors = analyzedCharacters.find(c => c.name.toUpperCase().trim() === name.toUpperCase().trim());
+        handleSaveLibraryCharacter(addToLibrary(libraryCharacters, name, image, descriptors));
+    };
+
+    const isInLibrary = (name: string, base64: string) =>
+        !!findLibraryCharacter(libraryCharacters, name)?.images.some(img => img.base64 === base64);
+
+    const renderLibraryButton = (name: string, image: CharacterImage) => isInLibrary(name, image.base64)
+        ? <span className="text-xs text-emerald-400">In library</span>
+        : (
+            <button onClick={() => handleAddToLibrary(name, image)} className="text-xs text-sky-400 hover:text-sky-300 font-medium transition-colors">
+                Save to library
+            </button>
+        );
+
+    const handleDeleteEpisode = useCallback(async (id: string) => {
+        try {
+            await deleteEpisode(id);
+            setSeriesEpisodes(prev => prev.filter(e => e.id !== id));
+        } catch (e) {
+            setError(`Failed to remove the episode from the series log: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }, []);
+
+    const handleSettingsChange = (next: GenerationSettings) => {
+        setSettings(next);
+        saveGenerationSettings(next);
+    };
 
     const handleStartOver = () => {
         setScriptData(null);
+        setScriptReview(null);
+        setMappingReview(null);
         setGeneratedImages([]);
         setCharacterImages({});
+        setLocationImages({});
         setGeneratedCharacterPortraits({});
         setTextFiles([]);
+        setImportedScript(null);
         setStylePrompt('');
         setStoryPrompt('');
         setError(null);
         setStatusMessage('');
         setIsGenerating(false);
         setIsFileUploading(false);
-        setGenerationReport('');
+        setGenerationReport(null);
         setGenerationComplete(false);
         setIsReadyForDownload(false);
         setHs3000Lines([]);
+        setGeneratedAudio([]);
+        backgroundMusic.forEach(url => URL.revokeObjectURL(url));
+        setBackgroundMusic([]);
+        setIsPlayerOpen(false);
+        videoControllerRef.current?.abort();
+        setAnimaticVideo(null);
     };
     
     const scriptToText = (script: Script | null): string => {
@@ -549,15 +1138,20 @@ The final output must be a creative and engaging movie script. Return ONLY the J
             const zip = new JSZip();
             zip.file('script.json', JSON.stringify(scriptData, null, 2));
             zip.file('story.txt', scriptToText(scriptData));
-            zip.file('generation_report.txt', generationReport);
+            zip.file('script.fountain', scriptToFountain(scriptData));
+            zip.file('script.fdx', scriptToFdx(scriptData));
+            zip.file('script.pdf', scriptToPdf(scriptData));
+            zip.file('generation_report.txt', generationReport ? renderReportText(generationReport) : '');
+            if (generationReport) zip.file('generation_report.json', JSON.stringify(generationReport, null, 2));
             
-            // Generate the requested 0hs3000 summary file
+            // Generate the requested 0hs3000 summary file, plus JSON and CSV variants
             const now = new Date();
             const timeStr = `${now.getFullYear()}${String(now.getMonth()+1).padStart(2,'0')}${String(now.getDate()).padStart(2,'0')}_${String(now.getHours()).padStart(2,'0')}${String(now.getMinutes()).padStart(2,'0')}`;
             const safeTitle = scriptData.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-            const hs3000Filename = `0hs3000_${safeTitle}_${timeStr}.txt`;
-            const hs3000Content = generateHs3000Content(hs3000Lines);
-            zip.file(hs3000Filename, hs3000Content);
+            const hs3000Basename = `0hs3000_${safeTitle}_${timeStr}`;
+            zip.file(`${hs3000Basename}.txt`, serializeHs3000(hs3000Lines, 'text'));
+            zip.file(`${hs3000Basename}.json`, serializeHs3000(hs3000Lines, 'json'));
+            zip.file(`${hs3000Basename}.csv`, serializeHs3000(hs3000Lines, 'csv'));
 
             const imageFolder = zip.folder("images");
             if (imageFolder) {
@@ -566,7 +1160,7 @@ The final output must be a creative and engaging movie script. Return ONLY the J
                     const fileName = `scene_${String(img.sceneIndex).padStart(4, '0')}.png`;
                     const txtFileName = `scene_${String(img.sceneIndex).padStart(4, '0')}.txt`;
                     
-                    const diag = hs3000Lines[i];
+                    const diag = hs3000Lines.find(line => line.sceneIndex === img.sceneIndex);
                     let dialogueText = diag ? `${diag.character}: ${diag.dialogue}` : "";
 
                     let fileContent = img.prompt;
@@ -580,13 +1174,38 @@ The final output must be a creative and engaging movie script. Return ONLY the J
 
                 const charFolder = imageFolder.folder("characters");
                 if (charFolder) {
+                    // File names lose punctuation and case, so the real names are listed alongside.
+                    const portraitNames: Record<string, string> = {};
                     for (const [name, image] of Object.entries(generatedCharacterPortraits)) {
                         const safeName = name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
                         const fileName = `${safeName}.png`;
                         const txtFileName = `${safeName}.txt`;
+                        portraitNames[fileName] = name;
                         charFolder.file(fileName, (image as GeneratedCharacterPortrait).base64, { base64: true });
                         charFolder.file(txtFileName, (image as GeneratedCharacterPortrait).prompt);
                     }
+                    if (Object.keys(portraitNames).length > 0) charFolder.file('names.json', JSON.stringify(portraitNames, null, 2));
+                }
+            }
+
+            if (animaticVideo) zip.file('animatic.webm', animaticVideo);
+
+            // The animatic opens on a still frame, so subtitles shipped with it start that much later.
+            const timelineCues = await subtitleCuesFor(buildStoryboardItems([...generatedImages, ...generatedAudio], scriptData), scriptData, hs3000Lines);
+            const cues = animaticVideo ? offsetCues(timelineCues, VIDEO_LEAD_IN_MS) : timelineCues;
+            if (cues.length > 0) {
+                zip.file('subtitles.srt', cuesToSrt(cues));
+                zip.file('subtitles.vtt', cuesToVtt(cues));
+            }
+
+            if (generatedAudio.length > 0) {
+                const audioFolder = zip.folder("audio");
+                if (audioFolder) {
+                    for (const audio of generatedAudio) {
+                        const el = scriptData.scene_elements[audio.sceneIndex];
+                        const speaker = el?.type === 'dialogue_block' ? `_${el.character.replace(/[^a-z0-9]/gi, '_').toLowerCase()}` : '';
+                        audioFolder.file(`dialogue_${String(audio.sceneIndex).padStart(4, '0')}${speaker}.wav`, audio.audioBlob);
+                    }
                 }
             }
 
@@ -603,7 +1222,7 @@ The final output must be a creative and engaging movie script. Return ONLY the J
             const errorMessage = err instanceof Error ? err.message : String(err);
             setError(`Failed to create zip file: ${errorMessage}`);
         }
-    }, [scriptData, generatedImages, generationReport, generatedCharacterPortraits, hs3000Lines]);
+    }, [scriptData, generatedImages, generationReport, generatedCharacterPortraits, hs3000Lines, generatedAudio, animaticVideo]);
     
     useEffect(() => {
         if (generationComplete && isReadyForDownload) {
@@ -613,6 +1232,147 @@ The final output must be a creative and engaging movie script. Return ONLY the J
     }, [generationComplete, isReadyForDownload, handleDownloadZip]);
 
 
+    const storyboardItems = useMemo(() => [...generatedImages, ...generatedAudio], [generatedImages, generatedAudio]);
+
+    useEffect(() => {
+        if (!scriptData) {
+            setSubtitleCues([]);
+            return;
+        }
+        let cancelled = false;
+        subtitleCuesFor(buildStoryboardItems(storyboardItems, scriptData), scriptData, hs3000Lines)
+            .then(cues => { if (!cancelled) setSubtitleCues(cues); })
+            .catch(e => console.warn('Failed to build subtitles:', e));
+        return () => { cancelled = true; };
+    }, [storyboardItems, scriptData, hs3000Lines]);
+
+    // A rendered animatic is only valid for the timeline it was rendered from.
+    useEffect(() => {
+        videoControllerRef.current?.abort();
+        setAnimaticVideo(null);
+    }, [storyboardItems, scriptData, backgroundMusic]);
+
+    const handleRenderVideo = useCallback(async () => {
+        if (!scriptData) return;
+        const controller = new AbortController();
+        videoControllerRef.current = controller;
+        setError(null);
+        setVideoProgress(0);
+        try {
+            const video = await renderStoryboardVideo(buildStoryboardItems(storyboardItems, scriptData), backgroundMusic, setVideoProgress, controller.signal);
+            setAnimaticVideo(video);
+        } catch (e) {
+            if (!controller.signal.aborted) setError(`Failed to render the video: ${e instanceof Error ? e.message : String(e)}`);
+        } finally {
+            if (videoControllerRef.current === controller) videoControllerRef.current = null;
+            setVideoProgress(null);
+        }
+    }, [storyboardItems, scriptData, backgroundMusic]);
+
+    // Same precedence as the generation run: uploads replace library characters, portraits replace both.
+    // Each shows its first image; regeneration picks from the whole set.
+    const characterReferences = useMemo(() => {
+        const references: Record<string, CharacterReference & ReferenceSet> = {};
+        const add = (name: string, images: ReferenceSet['images']) => {
+            references[name.toLowerCase()] = { name, base64: images[0].base64, mimeType: images[0].mimeType, images };
+        };
+        for (const libraryCharacter of libraryCharacters.filter(c => selectedLibraryIds.includes(c.id) && c.images.length > 0)) {
+            add(libraryCharacter.name, libraryCharacter.images);
+        }
+        for (const [key, images] of Object.entries(characterImages)) {
+            if ((images as CharacterImage[]).length > 0) add(key, images as CharacterImage[]);
+        }
+        for (const [name, portrait] of Object.entries(generatedCharacterPortraits)) {
+            add(name, [portrait as GeneratedCharacterPortrait]);
+        }
+        return Object.values(references);
+    }, [characterImages, generatedCharacterPortraits, libraryCharacters, selectedLibraryIds]);
+
+    const handleRegeneratePanel = useCallback(async (sceneIndex: number, request: PanelRegenerationRequest) => {
+        const panelIndex = generatedImages.findIndex(img => img.sceneIndex === sceneIndex);
+        if (panelIndex === -1) return;
+        // A regenerated panel must match its neighbours, so it uses the settings the run was generated with.
+        const runSettings = generationReport?.settings ? normalizeGenerationSettings(generationReport.settings) : settings;
+        const original = generatedImages[panelIndex];
+        const continuityImage = request.continuity === 'previous' ? generatedImages[panelIndex - 1]
+            : request.continuity === 'next' ? generatedImages[panelIndex + 1]
+            : undefined;
+        const references = selectReferenceImages(characterReferences.filter(ref => request.referenceNames.includes(ref.name)), request.prompt, runSettings.maxReferenceImages);
+        const slugline = scriptData ? sceneForElement(buildSceneGraph(scriptData), sceneIndex)?.slugline : undefined;
+        const locationKey = slugline ? matchLocationReference(slugline.location, Object.keys(locationImages)) : null;
+        const locationImage = locationKey ? { name: locationKey, ...locationImages[locationKey] } : undefined;
+
+        setRegeneratingSceneIndex(sceneIndex);
+        setError(null);
+        // Recorded into a copy of the current report, which replaces it once the call settles.
+        const recorder = createReportRecorder(generationReport ? structuredClone(generationReport) : createGenerationReport(runSettings, configuredProviderName()));
+        recorder.beginStage('panelEdit', `Panel ${panelIndex + 1} Regenerated`);
+        setServiceLogListener(recorder.log);
+        setModelSettings(runSettings);
+        const call = {
+            kind: 'image' as const, label: `Panel ${panelIndex + 1}/${generatedImages.length}`, model: runSettings.models.image, sceneIndex,
+            details: {
+                'Replaced Prompt': original.prompt,
+                'Edited Prompt': request.prompt,
+                'Character Images Used': references.length > 0 ? describeReferenceImages(references) : 'None',
+                'Neighbouring Scene Used for Continuity': continuityImage ? `Scene Index ${continuityImage.sceneIndex} (${request.continuity})` : 'No',
+                ...(Object.keys(locationImages).length > 0 ? { 'Location Reference': locationKey ?? 'None matched' } : {}),
+            },
+        };
+        const startedMs = Date.now();
+        try {
+            const imageGenResult = await generateImage(request.prompt, references, continuityImage?.base64, resolveStylePrompt(textFiles, stylePrompt), runSettings.aspectRatio, locationImage);
+            recorder.call({
+                ...call,
+                status: imageGenResult.imageBase64 ? 'success' : 'failed',
+                prompt: imageGenResult.finalPrompt,
+                safetyFlagged: imageGenResult.wasRewritten,
+                usage: imageGenResult.usage,
+                ...(imageGenResult.imageBase64 ? {} : { error: 'No image returned; the previous image was kept.' }),
+            }, startedMs);
+
+            if (imageGenResult.imageBase64) {
+                const replacement: GeneratedImage = {
+                    sceneIndex,
+                    imageUrl: `data:image/png;base64,${imageGenResult.imageBase64}`,
+                    base64: imageGenResult.imageBase64,
+                    prompt: imageGenResult.finalPrompt,
+                    panelPrompt: request.prompt,
+                    referenceNames: [...new Set(references.map(ref => ref.name))],
+                };
+                setGeneratedImages(prev => prev.map(img => img.sceneIndex === sceneIndex ? replacement : img));
+            } else {
+                setError(`The model returned no image for panel ${panelIndex + 1}${imageGenResult.wasRewritten ? ' (blocked for safety)' : ''}. The previous image was kept.`);
+            }
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            recorder.call({ ...call, status: 'failed', prompt: request.prompt, error: errorMessage }, startedMs);
+            setError(`Failed to regenerate panel ${panelIndex + 1}: ${errorMessage}`);
+        } finally {
+            setServiceLogListener(null);
+            recorder.finishStage();
+            setGenerationReport(recorder.report);
+            setRegeneratingSceneIndex(null);
+        }
+    }, [generatedImages, characterReferences, locationImages, scriptData, textFiles, stylePrompt, settings, generationReport]);
+
+    const renderResumeBanner = (checkpoint: PipelineCheckpoint) => (
+        <div className="mt-8 p-4 bg-amber-900/30 border border-amber-700 rounded-lg text-left flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="text-sm">
+                <p className="font-semibold text-amber-300">Unfinished run from {new Date(checkpoint.startedAt).toLocaleString()}</p>
+                <p className="text-slate-300">Saved progress: {describeCheckpoint(checkpoint)}.</p>
+            </div>
+            <div className="flex gap-3 shrink-0">
+                <Button onClick={() => handleGenerate(checkpoint)} disabled={isGenerating || isFileUploading}>
+                    Resume Generation
+                </Button>
+                <button onClick={handleDiscardCheckpoint} className="text-slate-400 hover:text-slate-200 text-sm font-medium transition-colors">
+                    Discard
+                </button>
+            </div>
+        </div>
+    );
+
     const renderInitialForm = () => (
         <div className="text-center animate-fade-in">
             <div className="my-8 p-6 border-2 border-dashed border-slate-600 hover:border-sky-500 bg-slate-800/50 rounded-lg transition-colors">
@@ -621,15 +1381,21 @@ The final output must be a creative and engaging movie script. Return ONLY the J
                         <path strokeLinecap="round" strokeLinejoin="round" d="M12 16.5V9.75m0 0 3 3m-3-3-3 3M6.75 19.5a4.5 4.5 0 0 1-1.41-8.775 5.25 5.25 0 0 1 10.233-2.33 3 3 0 0 1 3.758 3.848A3.752 3.752 0 0 1 18 19.5H6.75Z" />
                     </svg>
                     <span className="text-lg font-semibold text-sky-400">Batch Upload Files or a .ZIP</span>
-                    <p className="text-sm text-slate-400 mt-1">Select all text & image files</p>
+                    <p className="text-sm text-slate-400 mt-1">Select all text & image files (a .fountain screenplay skips script writing; audio files become background music)</p>
                 </label>
                 <input id="file-upload" type="file" multiple className="hidden" onChange={handleFilesUpload} disabled={isFileUploading || isGenerating} />
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-left">
                 <div>
-                    {textFiles.length > 0 && <h4 className="font-semibold mb-3 text-lg">Story Files:</h4>}
+                    {(textFiles.length > 0 || importedScript) && <h4 className="font-semibold mb-3 text-lg">Story Files:</h4>}
                     <ul className="space-y-2">
+                        {importedScript && (
+                            <li className="flex items-center justify-between p-2 rounded-md text-sm bg-emerald-900/50">
+                                <span className="truncate">{importedScript.source_file} — "{importedScript.title}" (script generation will be skipped)</span>
+                                <button onClick={() => setImportedScript(null)} className="ml-3 text-slate-400 hover:text-slate-200" aria-label="Remove imported script">&times;</button>
+                            </li>
+                        )}
                         {textFiles.map((file, index) => (
                            <li key={`${file.name}-${index}`} className={`flex items-center p-2 rounded-md text-sm ${file.name.toLowerCase() === 'style.txt' ? 'bg-sky-900/50' : 'bg-slate-700'}`}>
                                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 mr-3 text-slate-400"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 0 0-3.375-3.375h-1.5A1.125 1.125 0 0 1 13.5 7.125v-1.5a3.375 3.375 0 0 0-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a" />
@@ -642,18 +1408,47 @@ The final output must be a creative and engaging movie script. Return ONLY the J
                  <div>
                     {Object.keys(characterImages).length > 0 && <h4 className="font-semibold mb-3 text-lg">Character Images:</h4>}
                     <ul className="space-y-2">
-                        {Object.entries(characterImages).map(([name, charImage]) => (
+                        {Object.entries(characterImages).flatMap(([name, images]) => (images as CharacterImage[]).map(charImage => (
+                            <li key={`${name}-${charImage.fileName}`} className="flex items-center p-2 bg-slate-700 rounded-md text-sm">
+                                <img src={`data:${charImage.mimeType};base64,${charImage.base64}`} alt={name} className="w-8 h-8 rounded-full object-cover mr-3" />
+                                <span className="truncate flex-1">
+                                    {charImage.fileName}
+                                    {charImage.tags && <span className="ml-2 text-xs text-slate-400">{name} · {charImage.tags.join(', ')}</span>}
+                                </span>
+                                <span className="ml-3 shrink-0">{renderLibraryButton(name, charImage)}</span>
+                            </li>
+                        )))}
+                    </ul>
+                    {Object.keys(locationImages).length > 0 && <h4 className="font-semibold mt-4 mb-3 text-lg">Location Images:</h4>}
+                    <ul className="space-y-2">
+                        {Object.entries(locationImages).map(([name, locationImage]) => (
                             <li key={name} className="flex items-center p-2 bg-slate-700 rounded-md text-sm">
-                                <img src={`data:${(charImage as CharacterImage).mimeType};base64,${(charImage as CharacterImage).base64}`} alt={name} className="w-8 h-8 rounded-full object-cover mr-3" />
-                                <span className="truncate">{(charImage as CharacterImage).fileName}</span>
+                                <img src={`data:${(locationImage as CharacterImage).mimeType};base64,${(locationImage as CharacterImage).base64}`} alt={name} className="w-12 h-8 rounded object-cover mr-3" />
+                                <span className="truncate flex-1 uppercase">{name}</span>
+                                <span className="ml-3 shrink-0 truncate text-xs text-slate-400">{(locationImage as CharacterImage).fileName}</span>
                             </li>
                         ))}
                     </ul>
                 </div>
             </div>
 
+            <CharacterLibrary
+                characters={libraryCharacters}
+                selectedIds={selectedLibraryIds}
+                onToggleSelected={id => setSelectedLibraryIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id])}
+                onSave={handleSaveLibraryCharacter}
+                onDelete={handleDeleteLibraryCharacter}
+                disabled={isGenerating}
+            />
+
+            <SeriesLog episodes={seriesEpisodes} onDelete={handleDeleteEpisode} disabled={isGenerating} />
+
+            <SettingsPanel settings={settings} onChange={handleSettingsChange} disabled={isGenerating} />
+
+            {pendingCheckpoint && renderResumeBanner(pendingCheckpoint)}
+
             <div className="mt-10">
-                <Button onClick={handleGenerate} isLoading={isGenerating} disabled={isFileUploading || isGenerating} icon={<SparklesIcon />}>
+                <Button onClick={() => handleGenerate()} isLoading={isGenerating} disabled={isFileUploading || isGenerating} icon={<SparklesIcon />}>
                     Generate Episode
                 </Button>
             </div>
@@ -669,6 +1464,13 @@ The final output must be a creative and engaging movie script. Return ONLY the J
                  <div className="w-4 h-4 bg-sky-400 rounded-full animate-pulse"></div>
             </div>
             <p className="text-slate-400 mb-6">{statusMessage}</p>
+            <button
+                onClick={handleCancelGeneration}
+                disabled={isCancelling}
+                className="text-red-400 hover:text-red-300 font-medium transition-colors disabled:text-slate-600"
+            >
+                {isCancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
 
             {Object.keys(generatedCharacterPortraits).length > 0 && (
                 <div className="mt-6">
@@ -689,17 +1491,98 @@ The final output must be a creative and engaging movie script. Return ONLY the J
     const renderResults = () => (
         <div className="w-full max-w-4xl mx-auto animate-fade-in">
             <h2 className="text-3xl font-bold mb-2 text-center">{scriptData?.title || 'Generation Complete'}</h2>
-            <p className="text-slate-400 mb-8 text-center">Your script and assets have been generated.</p>
+            <p className="text-slate-400 mb-8 text-center">
+                {generationReport?.status === 'cancelled'
+                    ? 'Generation was cancelled. The assets produced before cancelling are below and in the download.'
+                    : 'Your script and assets have been generated.'}
+            </p>
 
             <div className="flex justify-center items-center gap-4 mb-8">
-                <Button onClick={handleDownloadZip} disabled={!isReadyForDownload} icon={<DownloadIcon />}>
+                <Button onClick={handleDownloadZip} disabled={!isReadyForDownload || regeneratingSceneIndex !== null} icon={<DownloadIcon />}>
                     Download .ZIP
                 </Button>
+                <Button onClick={() => setIsPlayerOpen(true)} disabled={generatedImages.length === 0} icon={<PlayIcon />} className="bg-slate-700 hover:bg-slate-600">
+                    Play Storyboard
+                </Button>
+                {videoProgress === null ? (
+                    <Button onClick={handleRenderVideo} disabled={generatedImages.length === 0 || regeneratingSceneIndex !== null || !isVideoExportSupported()} icon={<VideoIcon />} className="bg-slate-700 hover:bg-slate-600">
+                        {animaticVideo ? 'Re-render Video' : 'Render Video'}
+                    </Button>
+                ) : (
+                    <Button onClick={() => videoControllerRef.current?.abort()} icon={<VideoIcon />} className="bg-slate-700 hover:bg-slate-600">
+                        Rendering {Math.round(videoProgress * 100)}%... (cancel)
+                    </Button>
+                )}
             </div>
+            {videoProgress !== null && (
+                <p className="text-slate-400 text-sm -mt-6 mb-8 text-center">The video records in real time, so rendering takes as long as the storyboard plays.</p>
+            )}
+            {animaticVideo && videoProgress === null && (
+                <p className="text-slate-400 text-sm -mt-6 mb-8 text-center">The rendered video (animatic.webm) is included in the .ZIP download.</p>
+            )}
+
+            {isPlayerOpen && scriptData && (
+                <PresentationPlayer
+                    initialItems={storyboardItems}
+                    script={scriptData}
+                    backgroundMusic={backgroundMusic}
+                    subtitles={subtitleCues.length > 0 ? subtitleCues : undefined}
+                    onClose={() => setIsPlayerOpen(false)}
+                />
+            )}
+
+            {pendingCheckpoint && <div className="mb-8">{renderResumeBanner(pendingCheckpoint)}</div>}
+
+            {Object.keys(generatedCharacterPortraits).length > 0 && (
+                <div className="bg-slate-800 p-6 rounded-lg shadow-lg mb-8">
+                    <h3 className="text-xl font-semibold mb-4 border-b border-slate-700 pb-2">Character Portraits</h3>
+                    <div className="flex flex-wrap justify-center gap-4">
+                        {Object.entries(generatedCharacterPortraits).map(([name, value]) => {
+                            const portrait = value as GeneratedCharacterPortrait;
+                            const image: CharacterImage = { fileName: `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.png`, base64: portrait.base64, mimeType: portrait.mimeType };
+                            return (
+                                <div key={name} className="text-center">
+                                    <img src={`data:${portrait.mimeType};base64,${portrait.base64}`} alt={name} className="w-48 h-auto aspect-video rounded-lg object-cover mx-auto border-2 border-slate-600" />
+                                    <p className="text-sm mt-2 text-slate-400">{name}</p>
+                                    {renderLibraryButton(name, image)}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {generatedImages.length > 0 && scriptData && (
+                <div className="bg-slate-800 p-6 rounded-lg shadow-lg mb-8">
+                    <h3 className="text-xl font-semibold mb-4 border-b border-slate-700 pb-2">Storyboard Panels</h3>
+                    <StoryboardPanels
+                        images={generatedImages}
+                        script={scriptData}
+                        characterReferences={characterReferences}
+                        stylePrompt={resolveStylePrompt(textFiles, stylePrompt)}
+                        regeneratingSceneIndex={regeneratingSceneIndex}
+                        disabled={regeneratingSceneIndex !== null}
+                        onRegenerate={handleRegeneratePanel}
+                    />
+                </div>
+            )}
+
+            {generatedImages.length > 0 && scriptData && (
+                <div className="bg-slate-800 p-6 rounded-lg shadow-lg mb-8">
+                    <h3 className="text-xl font-semibold mb-4 border-b border-slate-700 pb-2">HS3000 Dialogue</h3>
+                    <Hs3000Editor
+                        lines={hs3000Lines}
+                        images={generatedImages}
+                        script={scriptData}
+                        onChange={setHs3000Lines}
+                        disabled={regeneratingSceneIndex !== null}
+                    />
+                </div>
+            )}
 
             <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
                 <h3 className="text-xl font-semibold mb-4 border-b border-slate-700 pb-2">Generation Report</h3>
-                <pre className="text-xs text-slate-300 whitespace-pre-wrap font-mono bg-slate-900 p-4 rounded-md h-96 overflow-y-auto">{generationReport}</pre>
+                {generationReport ? <ReportView report={generationReport} /> : <p className="text-sm text-slate-400">No report for this session.</p>}
             </div>
             <div className="text-center mt-8">
                 <button onClick={handleStartOver} className="text-sky-400 hover:text-sky-300 font-medium transition-colors">
@@ -711,6 +1594,28 @@ The final output must be a creative and engaging movie script. Return ONLY the J
 
     const renderContent = () => {
         if (isGenerating) return renderProcessing();
+        if (scriptReview?.script) {
+            const reviewSettings = normalizeGenerationSettings(scriptReview.inputs.settings);
+            return (
+                <ScriptEditor
+                    initialScript={scriptReview.script}
+                    imageLimit={reviewSettings.maxSceneImages}
+                    estimateImageCost={script => describeEstimate(estimateImageCalls(planStoryboardImages(script, scriptReview.inputs, reviewSettings), reviewSettings.models.image, reviewSettings.prices))}
+                    onApprove={handleApproveScript}
+                    onDiscard={handleDiscardReview}
+                />
+            );
+        }
+        if (mappingReview?.characterMapping) {
+            return (
+                <CharacterMappingReview
+                    initialMapping={mappingReview.characterMapping}
+                    references={mappingReferencesFor(mappingReview)}
+                    onApprove={handleApproveMapping}
+                    onDiscard={handleDiscardReview}
+                />
+            );
+        }
         if (scriptData) return renderResults();
         return renderInitialForm();
     };
@@ -723,6 +1628,11 @@ The final output must be a creative and engaging movie script. Return ONLY the J
                 </h1>
                 <p className="mt-4 text-lg text-slate-300 max-w-2xl mx-auto">AI-Powered Storyboard & Script Generator</p>
             </div>
+            {configuredProviderName() === 'mock' && (
+                <div className="w-full max-w-4xl mb-6 bg-amber-900/40 border border-amber-700 text-amber-300 px-4 py-3 rounded-lg text-sm text-center" role="status">
+                    Offline mock provider (MODEL_PROVIDER=mock): output is placeholder, costs are simulated and episodes are not added to the series log.
+                </div>
+            )}
 
             <div className="w-full max-w-4xl bg-slate-800/50 p-8 rounded-2xl shadow-2xl border border-slate-700">
                 {error && (
@@ -0,0 +1,102 @@
+import React from 'react';
+import { LibraryCharacter } from '../services/characterLibrary';
+
+interface CharacterLibraryProps {
+    characters: LibraryCharacter[];
+    selectedIds: string[];
+    onToggleSelected: (id: string) => void;
+    onSave: (character: LibraryCharacter) => void;
+    onDelete: (id: string) => void;
+    disabled?: boolean;
+}
+
+const inputClass = 'w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 text-sm focus:outline-none focus:border-sky-500';
+
+const parseAliases = (text: string) => [...new Set(text.split(',').map(a => a.trim()).filter(Boolean))];
+
+const CharacterLibrary: React.FC<CharacterLibraryProps> = ({ characters, selectedIds, onToggleSelected, onSave, onDelete, disabled }) => {
+    if (characters.length === 0) {
+        return (
+            <div className="mt-8 p-4 bg-slate-800/50 border border-slate-700 rounded-lg text-left text-sm text-slate-400">
+                <span className="font-semibold text-slate-300">Character Library</span> — empty. Save uploaded images or generated portraits to reuse them in later episodes.
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-8 p-4 bg-slate-800/50 border border-slate-700 rounded-lg text-left">
+            <h4 className="font-semibold text-slate-300 mb-1">Character Library</h4>
+            <p className="text-sm text-slate-400 mb-4">Selected characters are used as visual references and must appear in the episode.</p>
+            <ul className="space-y-3">
+                {characters.map(character => {
+                    const isSelected = selectedIds.includes(character.id);
+                    const descriptorSummary = character.descriptors
+                        ? [character.descriptors.race, character.descriptors.gender, character.descriptors.otherDescriptors].filter(Boolean).join(', ')
+                        : '';
+                    return (
+                        // Keyed on updatedAt so the uncontrolled inputs pick up saved changes.
+                        <li key={`${character.id}-${character.updatedAt}`} className={`p-3 rounded-md text-sm ${isSelected ? 'bg-sky-900/40 border border-sky-700' : 'bg-slate-700/60 border border-transparent'}`}>
+                            <div className="flex items-start gap-3">
+                                <input
+                                    type="checkbox"
+                                    checked={isSelected}
+                                    onChange={() => onToggleSelected(character.id)}
+                                    disabled={disabled}
+                                    className="mt-2"
+                                    aria-label={`Use ${character.name} in this episode`}
+                                />
+                                <div className="flex gap-1 shrink-0">
+                                    {character.images.map((image, i) => (
+                                        <div key={i} className="relative group">
+                                            <img src={`data:${image.mimeType};base64,${image.base64}`} alt={`${character.name} reference ${i + 1}`} title={image.fileName} className="w-12 h-12 rounded-md object-cover" />
+                                            {character.images.length > 1 && (
+                                                <button
+                                                    onClick={() => onSave({ ...character, images: character.images.filter((_, j) => j !== i) })}
+                                                    disabled={disabled}
+                                                    className="absolute -top-1 -right-1 hidden group-hover:block bg-slate-900 rounded-full w-4 h-4 leading-4 text-xs text-slate-300"
+                                                    aria-label="Remove reference image"
+                                                >&times;</button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                    <input
+                                        defaultValue={character.name}
+                                        onBlur={e => {
+                                            const name = e.target.value.trim();
+                                            if (name && name !== character.name) onSave({ ...character, name });
+                                        }}
+                                        disabled={disabled}
+                                        className={`${inputClass} font-semibold`}
+                                        aria-label="Canonical name"
+                                    />
+                                    <input
+                                        defaultValue={character.aliases.join(', ')}
+                                        onBlur={e => {
+                                            const aliases = parseAliases(e.target.value);
+                                            if (aliases.join(',') !== character.aliases.join(',')) onSave({ ...character, aliases });
+                                        }}
+                                        placeholder="Aliases, comma-separated"
+                                        disabled={disabled}
+                                        className={inputClass}
+                                        aria-label="Aliases"
+                                    />
+                                    {descriptorSummary && <p className="sm:col-span-2 text-xs text-slate-400">{descriptorSummary}</p>}
+                                </div>
+                                <button
+                                    onClick={() => onDelete(character.id)}
+                                    disabled={disabled}
+                                    className="text-slate-400 hover:text-red-400 transition-colors"
+                                    aria-label={`Delete ${character.name} from the library`}
+                                >&times;</button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default CharacterLibrary;
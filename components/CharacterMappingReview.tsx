@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { CharacterMapping, MappingSource, ReferenceCandidate } from '../services/aliasRegistry';
+import { ReferenceSet } from '../services/characterReferences';
+import Button from './Button';
+
+export interface MappingReference extends ReferenceCandidate, ReferenceSet {
+    /** Where the image came from: an upload, the character library or a generated portrait. */
+    origin: 'upload' | 'library' | 'portrait';
+}
+
+interface CharacterMappingReviewProps {
+    initialMapping: CharacterMapping[];
+    references: MappingReference[];
+    onApprove: (mapping: CharacterMapping[]) => void;
+    onDiscard: () => void;
+}
+
+const SOURCE_LABELS: Record<MappingSource, string> = {
+    name: 'same name',
+    alias: 'matched by alias',
+    fuzzy: 'similar spelling, please check',
+    user: 'your choice',
+    portrait: 'generated portrait',
+    none: 'no match',
+};
+
+const SOURCE_CLASSES: Record<MappingSource, string> = {
+    name: 'text-green-400',
+    alias: 'text-green-400',
+    fuzzy: 'text-amber-400',
+    user: 'text-sky-400',
+    portrait: 'text-green-400',
+    none: 'text-slate-500',
+};
+
+/**
+ * Lists each script character with the names it goes by and the reference image proposed for
+ * it, so the user can confirm or change the pairing before any storyboard image is generated.
+ */
+const CharacterMappingReview: React.FC<CharacterMappingReviewProps> = ({ initialMapping, references, onApprove, onDiscard }) => {
+    const [mapping, setMapping] = useState(initialMapping);
+
+    const chooseReference = (index: number, reference: string | null) =>
+        setMapping(prev => prev.map((entry, i) => i === index ? { ...entry, reference, source: reference === initialMapping[index].reference ? initialMapping[index].source : 'user' } : entry));
+
+    const usageCount = (reference: string) => mapping.filter(entry => entry.reference === reference).length;
+
+    return (
+        <div className="w-full max-w-4xl mx-auto animate-fade-in text-left">
+            <h2 className="text-3xl font-bold mb-2 text-center">Confirm Character References</h2>
+            <p className="text-slate-400 mb-6 text-center">
+                Each character is drawn from the reference image chosen here in every storyboard panel, whichever of their names a panel uses. Analyzed characters left without one get a generated portrait.
+            </p>
+
+            <ul className="bg-slate-800 p-4 rounded-lg max-h-[60vh] overflow-y-auto space-y-2">
+                {mapping.map((entry, index) => {
+                    const reference = references.find(ref => ref.name === entry.reference);
+                    const image = reference?.images[0];
+                    return (
+                        <li key={entry.character} className="flex items-center gap-4 p-2 bg-slate-700/40 rounded-md">
+                            {image
+                                ? <img src={`data:${image.mimeType};base64,${image.base64}`} alt={entry.reference ?? ''} className="w-16 h-16 object-cover rounded" />
+                                : <div className="w-16 h-16 rounded bg-slate-900 flex items-center justify-center text-xs text-slate-500">None</div>}
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold text-slate-200">{entry.character}</p>
+                                {entry.aliases.length > 0 && <p className="text-xs text-slate-400 truncate">Also: {entry.aliases.join(', ')}</p>}
+                                <p className={`text-xs ${SOURCE_CLASSES[entry.source]}`}>
+                                    {SOURCE_LABELS[entry.source]}
+                                    {reference && reference.images.length > 1 && <span className="text-slate-400"> · {reference.images.length} images</span>}
+                                    {entry.reference && usageCount(entry.reference) > 1 && <span className="text-amber-400"> · also used for another character</span>}
+                                </p>
+                            </div>
+                            <select
+                                value={entry.reference ?? ''}
+                                onChange={e => chooseReference(index, e.target.value || null)}
+                                className="w-48 p-2 bg-slate-900 border border-slate-600 rounded-md text-sm text-slate-200"
+                                aria-label={`Reference image for ${entry.character}`}
+                            >
+                                <option value="">No reference image</option>
+                                {references.map(ref => <option key={ref.name} value={ref.name}>{ref.name} ({ref.origin})</option>)}
+                            </select>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <div className="flex justify-center items-center gap-6 mt-8">
+                <Button onClick={() => onApprove(mapping)}>
+                    Generate Images
+                </Button>
+                <button onClick={onDiscard} className="text-slate-400 hover:text-slate-200 font-medium transition-colors">
+                    Discard Run
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CharacterMappingReview;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { GeneratedImage, Hs3000Line, Script } from '../types';
+import { getDialogueForScene, parseHs3000, attachHs3000Lines, hs3000FormatFromExtension } from '../services/hs3000';
+
+interface Hs3000EditorProps {
+    lines: Hs3000Line[];
+    images: GeneratedImage[];
+    script: Script;
+    onChange: (lines: Hs3000Line[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Edits the HS3000 line of each panel before download, and imports an edited HS3000 file
+ * (text, JSON or CSV), re-attaching its lines to the panels.
+ */
+const Hs3000Editor: React.FC<Hs3000EditorProps> = ({ lines, images, script, onChange, disabled }) => {
+    const [importIssues, setImportIssues] = useState<string[]>([]);
+    const panels = [...images].sort((a, b) => a.sceneIndex - b.sceneIndex);
+
+    const updateLine = (sceneIndex: number, changes: Partial<Hs3000Line>) =>
+        onChange(lines.map(line => line.sceneIndex === sceneIndex ? { ...line, ...changes } : line));
+
+    const addLine = (sceneIndex: number) => {
+        const diag = getDialogueForScene(sceneIndex, script);
+        const line = { sceneIndex, character: diag?.character ?? '', dialogue: diag?.dialogue ?? '' };
+        onChange([...lines, line].sort((a, b) => a.sceneIndex - b.sceneIndex));
+    };
+
+    const removeLine = (sceneIndex: number) => onChange(lines.filter(line => line.sceneIndex !== sceneIndex));
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        const format = hs3000FormatFromExtension(file.name);
+        if (!format) {
+            setImportIssues([`${file.name} is not a .txt, .json or .csv file.`]);
+            return;
+        }
+        const parsed = parseHs3000(await file.text(), format);
+        const attached = attachHs3000Lines(parsed.lines, images, script);
+        const issues = [...parsed.issues, ...attached.issues];
+        if (attached.lines.length === 0) {
+            setImportIssues([`No line in ${file.name} could be attached to a panel; the current lines were kept.`, ...issues]);
+            return;
+        }
+        onChange(attached.lines);
+        setImportIssues([`Imported ${attached.lines.length} line(s) from ${file.name}.`, ...issues]);
+    };
+
+    return (
+        <div className="text-left">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3 text-sm">
+                <p className="text-slate-400">{lines.length} line(s) across {panels.length} panel(s). Edits are included in the .ZIP download.</p>
+                <label className={`text-sky-400 font-medium ${disabled ? 'opacity-50' : 'cursor-pointer hover:text-sky-300'}`}>
+                    Import HS3000 file
+                    <input type="file" accept=".txt,.json,.csv" className="hidden" onChange={handleImport} disabled={disabled} />
+                </label>
+            </div>
+            {importIssues.length > 0 && (
+                <ul className="mb-3 p-3 bg-slate-900 rounded-md text-xs text-amber-300 space-y-1">
+                    {importIssues.map((issue, i) => <li key={i} className={i === 0 ? 'text-slate-300' : ''}>{issue}</li>)}
+                </ul>
+            )}
+            <ol className="space-y-2 max-h-[32rem] overflow-y-auto">
+                {panels.map((image, panelIndex) => {
+                    const line = lines.find(l => l.sceneIndex === image.sceneIndex);
+                    return (
+                        <li key={image.sceneIndex} className="flex gap-3 p-2 bg-slate-700/40 rounded-md">
+                            <img src={image.imageUrl} alt={`Panel ${panelIndex + 1}`} className="w-24 h-auto aspect-video object-cover rounded" />
+                            <div className="flex-1 min-w-0 text-sm">
+                                <p className="text-xs text-slate-500 mb-1">Panel {panelIndex + 1} · scene element {image.sceneIndex}</p>
+                                {line ? (
+                                    <div className="flex flex-wrap items-start gap-2">
+                                        <input
+                                            value={line.character}
+                                            onChange={e => updateLine(image.sceneIndex, { character: e.target.value.toUpperCase() })}
+                                            disabled={disabled}
+                                            placeholder="CHARACTER"
+                                            className="w-36 p-1 bg-slate-900 border border-slate-600 rounded font-mono text-slate-200"
+                                            aria-label={`Character for panel ${panelIndex + 1}`}
+                                        />
+                                        <textarea
+                                            value={line.dialogue}
+                                            onChange={e => updateLine(image.sceneIndex, { dialogue: e.target.value })}
+                                            disabled={disabled}
+                                            rows={2}
+                                            className="flex-1 min-w-[12rem] p-1 bg-slate-900 border border-slate-600 rounded text-slate-200"
+                                            aria-label={`Dialogue for panel ${panelIndex + 1}`}
+                                        />
+                                        <button
+                                            onClick={() => removeLine(image.sceneIndex)}
+                                            disabled={disabled}
+                                            className="text-slate-400 hover:text-red-400 transition-colors"
+                                            aria-label={`Remove the line for panel ${panelIndex + 1}`}
+                                        >&times;</button>
+                                    </div>
+                                ) : (
+                                    <button onClick={() => addLine(image.sceneIndex)} disabled={disabled} className="text-sky-400 hover:text-sky-300 text-xs font-medium">
+                                        Add a line
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default Hs3000Editor;
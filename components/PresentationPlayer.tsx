@@ -1,11 +1,10 @@
 
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { GeneratedAudio, Script, SceneElement } from '../types';
+import { GeneratedAudio, Script } from '../types';
 import Button from './Button';
-
-// A generic "GeneratedImage" type for use within this component
-type GeneratedImage = { sceneIndex: number; imageUrl: string };
+import { StoryboardItem, TimelineImage, IMAGE_HOLD_MS, buildStoryboardItems, captionFor } from '../services/storyboardTimeline';
+import { SubtitleCue, cueForItem } from '../services/subtitles';
 
 const PlayIcon: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347a1.125 1.125 0 0 1-1.667-.986V5.653Z" /></svg>
@@ -23,26 +22,17 @@ const CloseIcon: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
 );
 
-type StoryboardItem = (GeneratedImage | GeneratedAudio) & {
-    sceneElement?: SceneElement;
-};
-
 interface PresentationPlayerProps {
-    initialItems: (GeneratedImage | GeneratedAudio)[];
+    initialItems: (TimelineImage | GeneratedAudio)[];
     script: Script;
     backgroundMusic: string[];
+    /** Cues built from the same timeline; when present, the player offers a subtitle track. */
+    subtitles?: SubtitleCue[];
     onClose: () => void;
 }
 
-const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, script, backgroundMusic, onClose }) => {
-    const storyboardItems: StoryboardItem[] = useMemo(() => {
-        return initialItems
-            .map(item => ({
-                ...item,
-                sceneElement: script.scene_elements[item.sceneIndex],
-            }))
-            .sort((a, b) => a.sceneIndex - b.sceneIndex);
-    }, [initialItems, script]);
+const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, script, backgroundMusic, subtitles, onClose }) => {
+    const storyboardItems: StoryboardItem[] = useMemo(() => buildStoryboardItems(initialItems, script), [initialItems, script]);
 
     const [currentIndex, setCurrentIndex] = useState(0);
     const [currentImage, setCurrentImage] = useState<string | null>(null);
@@ -51,10 +41,11 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, s
     const musicAudioRef = useRef<HTMLAudioElement>(null);
     const imageTimeoutRef = useRef<number | null>(null);
     const [currentMusicIndex, setCurrentMusicIndex] = useState(0);
+    const [showSubtitles, setShowSubtitles] = useState(false);
 
     // Effect to find the first image and set it as the starting background
     useEffect(() => {
-        const firstImage = storyboardItems.find(item => 'imageUrl' in item) as GeneratedImage | undefined;
+        const firstImage = storyboardItems.find(item => 'imageUrl' in item) as TimelineImage | undefined;
         if (firstImage) {
             setCurrentImage(firstImage.imageUrl);
         }
@@ -100,7 +91,7 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, s
         } else {
             imageTimeoutRef.current = window.setTimeout(() => {
                 goToNext();
-            }, 4000); // 4-second delay for image-only slides
+            }, IMAGE_HOLD_MS);
         }
 
         return () => {
@@ -142,15 +133,8 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, s
         });
     };
     
-    const currentItem = storyboardItems[currentIndex];
-    let displayText = '', characterText = '';
-    if (currentItem?.sceneElement) {
-        if (currentItem.sceneElement.type === 'action') displayText = currentItem.sceneElement.content || '';
-        else if (currentItem.sceneElement.type === 'dialogue_block') {
-            characterText = currentItem.sceneElement.character.toUpperCase();
-            displayText = currentItem.sceneElement.elements.find(e => e.type === 'dialogue')?.content || '';
-        }
-    }
+    const { character: characterText, text: displayText } = captionFor(storyboardItems[currentIndex]?.sceneElement);
+    const subtitle = showSubtitles && subtitles ? cueForItem(subtitles, currentIndex) : undefined;
 
     return (
         <div className="fixed inset-0 bg-black/90 backdrop-blur-lg flex flex-col items-center justify-center z-50 animate-fade-in p-4" role="dialog" aria-modal="true" aria-labelledby="player-title">
@@ -161,10 +145,18 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, s
                 ) : (
                     <div className="w-full h-full flex items-center justify-center text-slate-500"><p>Loading Visual...</p></div>
                 )}
-                 <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 via-black/60 to-transparent p-4 sm:p-6 text-white pointer-events-none">
-                    {characterText && <p className="font-bold text-lg sm:text-xl drop-shadow-md">{characterText}</p>}
-                    <p className="text-base sm:text-lg drop-shadow-md">{displayText}</p>
-                 </div>
+                 {showSubtitles ? (
+                    subtitle && (
+                        <div className="absolute bottom-4 left-0 right-0 flex justify-center px-4 pointer-events-none">
+                            <p className="bg-black/75 text-white text-base sm:text-lg px-3 py-1 rounded text-center">{subtitle.text}</p>
+                        </div>
+                    )
+                 ) : (
+                    <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 via-black/60 to-transparent p-4 sm:p-6 text-white pointer-events-none">
+                        {characterText && <p className="font-bold text-lg sm:text-xl drop-shadow-md">{characterText}</p>}
+                        <p className="text-base sm:text-lg drop-shadow-md">{displayText}</p>
+                    </div>
+                 )}
             </div>
 
             <div className="flex items-center gap-2 sm:gap-4 bg-slate-800/50 p-2 rounded-lg">
@@ -173,6 +165,16 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, s
                     {isPlaying ? <PauseIcon /> : <PlayIcon />}
                 </Button>
                 <Button onClick={goToNext} disabled={currentIndex >= storyboardItems.length} className="bg-transparent hover:bg-sky-900/50 p-3" aria-label="Next slide"><NextIcon /></Button>
+                {subtitles && (
+                    <Button
+                        onClick={() => setShowSubtitles(prev => !prev)}
+                        className={`${showSubtitles ? 'bg-sky-900/70' : 'bg-transparent'} hover:bg-sky-900/50 p-3 font-bold text-sm`}
+                        aria-label={showSubtitles ? "Hide subtitles" : "Show subtitles"}
+                        aria-pressed={showSubtitles}
+                    >
+                        CC
+                    </Button>
+                )}
             </div>
              <Button onClick={onClose} className="absolute top-3 right-3 bg-slate-700/50 hover:bg-slate-600/50 rounded-full p-2" aria-label="Close player"><CloseIcon /></Button>
              <audio ref={audioRef} onEnded={goToNext} className="hidden" />
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { GenerationReport, ReportStage, ModelCallRecord, describeCharacterMatch, formatDuration } from '../services/generationReport';
+import { CostSummary, describeUsage, formatUsd } from '../services/costLedger';
+import { CharacterMapping, describeCharacterMapping } from '../services/aliasRegistry';
+
+interface ReportViewProps {
+    report: GenerationReport;
+}
+
+const STATUS_CLASSES: Record<string, string> = {
+    running: 'text-sky-400',
+    awaitingReview: 'text-amber-400',
+    completed: 'text-green-400',
+    failed: 'text-red-400',
+    cancelled: 'text-amber-400',
+};
+
+const hasIssues = (stage: ReportStage) =>
+    stage.status === 'failed' || stage.status === 'cancelled' || stage.events.some(e => e.level !== 'info') || stage.calls.some(c => c.status === 'failed' || c.safetyFlagged);
+
+const CallEntry: React.FC<{ call: ModelCallRecord }> = ({ call }) => (
+    <li className="p-2 bg-slate-900 rounded-md">
+        <p className="font-mono">
+            <span className={call.status === 'success' ? 'text-green-400' : 'text-red-400'}>{call.status === 'success' ? '✓' : '✗'}</span>{' '}
+            <span className="text-slate-200">{call.label}</span>
+            <span className="text-slate-500"> · {call.model} · {formatDuration(call.durationMs)}{call.usage && ` · ${describeUsage(call.usage)}`}</span>
+            {call.safetyFlagged && <span className="ml-2 text-amber-400">flagged for safety</span>}
+        </p>
+        {call.error && <p className="text-red-400 mt-1">{call.error}</p>}
+        {Object.entries(call.details ?? {}).map(([key, value]) => <p key={key} className="text-slate-400 mt-1">{key}: {value}</p>)}
+        {call.characterMatches && call.characterMatches.length > 0 && (
+            <ul className="mt-1 text-slate-400">
+                {call.characterMatches.map((match, i) => (
+                    <li key={i} className={match.accepted ? '' : 'text-slate-500 line-through'}>{describeCharacterMatch(match)}</li>
+                ))}
+            </ul>
+        )}
+        {call.continuityImageUsed !== undefined && <p className="text-slate-400 mt-1">Previous scene used for continuity: {call.continuityImageUsed ? 'yes' : 'no'}</p>}
+        {call.prompt && (
+            <details className="mt-1">
+                <summary className="cursor-pointer text-slate-500 select-none">Prompt sent</summary>
+                <pre className="mt-1 whitespace-pre-wrap font-mono text-slate-300">{call.prompt}</pre>
+            </details>
+        )}
+    </li>
+);
+
+const CostTable: React.FC<{ costs: CostSummary }> = ({ costs }) => (
+    <div className="mb-3 p-3 bg-slate-900 rounded-md">
+        <p className="text-sm text-slate-200">
+            Cost: <span className="font-semibold">{formatUsd(costs.totalUsd)}</span>
+            <span className="text-slate-500"> · {describeUsage(costs.usage)}</span>
+        </p>
+        <table className="mt-2 w-full text-left">
+            <thead className="text-slate-500">
+                <tr><th className="font-normal">Model</th><th className="font-normal">Calls</th><th className="font-normal">Usage</th><th className="font-normal text-right">Cost</th></tr>
+            </thead>
+            <tbody className="text-slate-300">
+                {costs.byModel.map(m => (
+                    <tr key={m.model}>
+                        <td className="font-mono pr-2">{m.model}</td>
+                        <td className="pr-2">{m.calls}</td>
+                        <td className="pr-2">{describeUsage(m.usage)}</td>
+                        <td className={`text-right ${m.costUsd === null ? 'text-amber-400' : ''}`}>{formatUsd(m.costUsd)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+        {costs.unpricedModels.length > 0 && <p className="mt-2 text-amber-400">Not in the price table, so excluded from the total: {costs.unpricedModels.join(', ')}</p>}
+    </div>
+);
+
+const MappingList: React.FC<{ mapping: CharacterMapping[] }> = ({ mapping }) => (
+    <div className="mb-3 p-3 bg-slate-900 rounded-md">
+        <p className="text-sm text-slate-200">Character references</p>
+        <ul className="mt-2 space-y-1 text-slate-300">
+            {mapping.map(entry => (
+                <li key={entry.character} className={entry.source === 'fuzzy' ? 'text-amber-300' : entry.reference ? '' : 'text-slate-500'}>{describeCharacterMapping(entry)}</li>
+            ))}
+        </ul>
+    </div>
+);
+
+/**
+ * Shows a generation report as one collapsible section per stage. Stages with failures,
+ * warnings or safety flags start expanded.
+ */
+const ReportView: React.FC<ReportViewProps> = ({ report }) => {
+    const [issuesOnly, setIssuesOnly] = useState(false);
+    const stages = issuesOnly ? report.stages.filter(hasIssues) : report.stages;
+
+    return (
+        <div className="text-xs text-left">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3 text-sm">
+                <p className="text-slate-400">
+                    Status: <span className={STATUS_CLASSES[report.status]}>{report.status}</span>
+                    <span className="text-slate-500"> · started {new Date(report.createdAt).toLocaleString()}</span>
+                </p>
+                <label className="flex items-center gap-2 text-slate-300">
+                    <input type="checkbox" checked={issuesOnly} onChange={e => setIssuesOnly(e.target.checked)} />
+                    Only stages with issues
+                </label>
+            </div>
+            {report.provider === 'mock' && (
+                <p className="mb-3 p-3 bg-amber-900/40 border border-amber-700 rounded-md text-amber-300">
+                    Run with the offline mock provider: the script, images and audio are placeholders and the costs below are simulated.
+                </p>
+            )}
+            {report.costs && report.costs.byModel.length > 0 && <CostTable costs={report.costs} />}
+            {report.characterMapping && report.characterMapping.length > 0 && <MappingList mapping={report.characterMapping} />}
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+                {stages.length === 0 && <p className="text-slate-500">{issuesOnly ? 'No stage reported an issue.' : 'No stages recorded.'}</p>}
+                {stages.map((stage, i) => (
+                    <details key={`${stage.id}-${i}`} open={hasIssues(stage)} className="bg-slate-700/40 border border-slate-700 rounded-md">
+                        <summary className="cursor-pointer px-3 py-2 select-none flex flex-wrap items-center gap-2">
+                            <span className="font-semibold text-slate-200">{stage.title}</span>
+                            <span className={STATUS_CLASSES[stage.status]}>{stage.status}</span>
+                            <span className="text-slate-500">
+                                {formatDuration(stage.durationMs)}
+                                {stage.calls.length > 0 && ` · ${stage.calls.length} model call${stage.calls.length === 1 ? '' : 's'}`}
+                            </span>
+                        </summary>
+                        <div className="px-3 pb-3 space-y-2">
+                            {stage.events.map((event, j) => (
+                                <div key={j} className={event.level === 'error' ? 'text-red-400' : event.level === 'warning' ? 'text-amber-300' : 'text-slate-300'}>
+                                    <p>{event.message}</p>
+                                    {event.details && <pre className="mt-1 whitespace-pre-wrap font-mono text-slate-400 bg-slate-900 p-2 rounded-md">{event.details}</pre>}
+                                </div>
+                            ))}
+                            {stage.calls.length > 0 && (
+                                <ul className="space-y-2">
+                                    {stage.calls.map((call, j) => <CallEntry key={j} call={call} />)}
+                                </ul>
+                            )}
+                        </div>
+                    </details>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ReportView;
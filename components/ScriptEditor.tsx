@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Script, SceneElement, DialogueBlock } from '../types';
+import { validateScript } from '../services/validation';
+import Button from './Button';
+
+type SimpleElementType = 'scene_heading' | 'action' | 'transition';
+type DialoguePart = DialogueBlock['elements'][number];
+
+interface ScriptEditorProps {
+    initialScript: Script;
+    /** Upper bound on storyboard images, shown next to the action count. */
+    imageLimit: number;
+    /** Describes the expected cost of the portraits and storyboard images for a script. */
+    estimateImageCost?: (script: Script) => string;
+    onApprove: (script: Script, issues: string[]) => void;
+    onDiscard: () => void;
+}
+
+const ELEMENT_LABELS: Record<SceneElement['type'], string> = {
+    scene_heading: 'Heading',
+    action: 'Action',
+    dialogue_block: 'Dialogue',
+    transition: 'Transition',
+};
+
+const ELEMENT_COLORS: Record<SceneElement['type'], string> = {
+    scene_heading: 'border-amber-600',
+    action: 'border-sky-600',
+    dialogue_block: 'border-emerald-600',
+    transition: 'border-slate-500',
+};
+
+const newElement = (type: SceneElement['type']): SceneElement => type === 'dialogue_block'
+    ? { type, character: '', elements: [{ type: 'dialogue', content: '' }] }
+    : { type, content: '' };
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+    if (to < 0 || to >= items.length) return items;
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+const inputClass = 'w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 text-sm focus:outline-none focus:border-sky-500';
+const iconButtonClass = 'px-2 text-slate-400 hover:text-slate-100 disabled:text-slate-700 disabled:cursor-not-allowed';
+
+/**
+ * SCRIPT REVIEW EDITOR
+ * Structured editor over `scene_elements`, shown between script generation and the paid
+ * storyboard stages. The edited script is run through validateScript before it is approved.
+ */
+const ScriptEditor: React.FC<ScriptEditorProps> = ({ initialScript, imageLimit, estimateImageCost, onApprove, onDiscard }) => {
+    const [script, setScript] = useState<Script>(initialScript);
+    const [issues, setIssues] = useState<string[]>([]);
+
+    const elements = script.scene_elements;
+    const setElements = (update: (elements: SceneElement[]) => SceneElement[]) =>
+        setScript(prev => ({ ...prev, scene_elements: update(prev.scene_elements) }));
+    const updateElement = (index: number, element: SceneElement) =>
+        setElements(els => els.map((el, i) => i === index ? element : el));
+    const insertElement = (index: number, type: SceneElement['type']) =>
+        setElements(els => [...els.slice(0, index), newElement(type), ...els.slice(index)]);
+
+    const updateDialoguePart = (index: number, block: DialogueBlock, partIndex: number, part: DialoguePart | null) => {
+        const parts = part
+            ? block.elements.map((p, j) => j === partIndex ? part : p)
+            : block.elements.filter((_, j) => j !== partIndex);
+        updateElement(index, { ...block, elements: parts });
+    };
+
+    const actionCount = elements.filter(el => el.type === 'action' && el.content?.trim()).length;
+
+    const handleApprove = () => {
+        const result = validateScript(script);
+        if (!result.value) {
+            setIssues(result.issues);
+            return;
+        }
+        onApprove(result.value, result.issues);
+    };
+
+    const renderInsertBar = (index: number) => (
+        <div className="flex flex-wrap gap-2 text-xs text-slate-500 py-1">
+            <span>Insert:</span>
+            {(Object.keys(ELEMENT_LABELS) as SceneElement['type'][]).map(type => (
+                <button key={type} onClick={() => insertElement(index, type)} className="hover:text-sky-400 transition-colors">
+                    + {ELEMENT_LABELS[type]}
+                </button>
+            ))}
+        </div>
+    );
+
+    const renderDialogueBlock = (block: DialogueBlock, index: number) => (
+        <div className="space-y-2">
+            <input
+                value={block.character}
+                onChange={e => updateElement(index, { ...block, character: e.target.value })}
+                placeholder="CHARACTER"
+                className={`${inputClass} uppercase font-semibold`}
+                aria-label="Character"
+            />
+            {block.elements.map((part, partIndex) => (
+                <div key={partIndex} className="flex items-start gap-2 pl-4">
+                    <select
+                        value={part.type}
+                        onChange={e => updateDialoguePart(index, block, partIndex, { ...part, type: e.target.value as DialoguePart['type'] })}
+                        className="bg-slate-900 border border-slate-600 rounded-md px-1 py-1 text-xs text-slate-300"
+                        aria-label="Dialogue part type"
+                    >
+                        <option value="dialogue">Line</option>
+                        <option value="parenthetical">Parenthetical</option>
+                    </select>
+                    <textarea
+                        value={part.content}
+                        onChange={e => updateDialoguePart(index, block, partIndex, { ...part, content: e.target.value })}
+                        rows={part.type === 'parenthetical' ? 1 : 2}
+                        className={`${inputClass} ${part.type === 'parenthetical' ? 'italic' : ''}`}
+                        aria-label={part.type === 'parenthetical' ? 'Parenthetical' : 'Dialogue line'}
+                    />
+                    <button onClick={() => updateElement(index, { ...block, elements: moveItem(block.elements, partIndex, partIndex - 1) })} disabled={partIndex === 0} className={iconButtonClass} aria-label="Move line up">&uarr;</button>
+                    <button onClick={() => updateElement(index, { ...block, elements: moveItem(block.elements, partIndex, partIndex + 1) })} disabled={partIndex === block.elements.length - 1} className={iconButtonClass} aria-label="Move line down">&darr;</button>
+                    <button onClick={() => updateDialoguePart(index, block, partIndex, null)} className={iconButtonClass} aria-label="Delete line">&times;</button>
+                </div>
+            ))}
+            <div className="flex gap-3 pl-4 text-xs">
+                <button onClick={() => updateElement(index, { ...block, elements: [...block.elements, { type: 'dialogue', content: '' }] })} className="text-slate-500 hover:text-sky-400 transition-colors">+ Line</button>
+                <button onClick={() => updateElement(index, { ...block, elements: [...block.elements, { type: 'parenthetical', content: '' }] })} className="text-slate-500 hover:text-sky-400 transition-colors">+ Parenthetical</button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="w-full max-w-4xl mx-auto animate-fade-in text-left">
+            <h2 className="text-3xl font-bold mb-2 text-center">Review Your Script</h2>
+            <p className="text-slate-400 mb-6 text-center">
+                Edit the script before any images are generated. {actionCount} action line(s) will become up to {Math.min(actionCount, imageLimit)} storyboard image(s).
+            </p>
+            {estimateImageCost && <p className="text-slate-500 text-sm -mt-4 mb-6 text-center">Estimated image cost: {estimateImageCost(script)}</p>}
+
+            <label className="block mb-6">
+                <span className="text-sm text-slate-400">Title</span>
+                <input value={script.title} onChange={e => setScript(prev => ({ ...prev, title: e.target.value }))} className={`${inputClass} text-lg font-semibold`} />
+            </label>
+
+            <div className="bg-slate-800 p-4 rounded-lg max-h-[60vh] overflow-y-auto">
+                {elements.map((el, index) => (
+                    <div key={index}>
+                        {renderInsertBar(index)}
+                        <div className={`flex items-start gap-3 bg-slate-800/80 border-l-4 ${ELEMENT_COLORS[el.type]} pl-3 py-2`}>
+                            <div className="flex-1 space-y-2">
+                                {el.type === 'dialogue_block' ? (
+                                    <>
+                                        <span className="text-xs font-semibold text-slate-400 uppercase">{ELEMENT_LABELS[el.type]}</span>
+                                        {renderDialogueBlock(el, index)}
+                                    </>
+                                ) : (
+                                    <>
+                                        <select
+                                            value={el.type}
+                                            onChange={e => updateElement(index, { type: e.target.value as SimpleElementType, content: el.content })}
+                                            className="bg-slate-900 border border-slate-600 rounded-md px-1 py-1 text-xs text-slate-300 uppercase"
+                                            aria-label="Element type"
+                                        >
+                                            <option value="scene_heading">Heading</option>
+                                            <option value="action">Action</option>
+                                            <option value="transition">Transition</option>
+                                        </select>
+                                        <textarea
+                                            value={el.content}
+                                            onChange={e => updateElement(index, { ...el, content: e.target.value })}
+                                            rows={el.type === 'action' ? 3 : 1}
+                                            placeholder={el.type === 'scene_heading' ? 'INT. LOCATION - DAY' : el.type === 'transition' ? 'CUT TO:' : ''}
+                                            className={`${inputClass} ${el.type !== 'action' ? 'uppercase' : ''}`}
+                                            aria-label={ELEMENT_LABELS[el.type]}
+                                        />
+                                    </>
+                                )}
+                            </div>
+                            <div className="flex flex-col">
+                                <button onClick={() => setElements(els => moveItem(els, index, index - 1))} disabled={index === 0} className={iconButtonClass} aria-label="Move element up">&uarr;</button>
+                                <button onClick={() => setElements(els => moveItem(els, index, index + 1))} disabled={index === elements.length - 1} className={iconButtonClass} aria-label="Move element down">&darr;</button>
+                                <button onClick={() => setElements(els => els.filter((_, i) => i !== index))} className={iconButtonClass} aria-label="Delete element">&times;</button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+                {renderInsertBar(elements.length)}
+            </div>
+
+            {issues.length > 0 && (
+                <div className="mt-4 bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm" role="alert">
+                    <p className="font-semibold">The script can't be used yet:</p>
+                    <ul className="list-disc pl-5">
+                        {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex justify-center items-center gap-6 mt-8">
+                <Button onClick={handleApprove}>
+                    Generate Storyboard
+                </Button>
+                <button onClick={onDiscard} className="text-slate-400 hover:text-slate-200 font-medium transition-colors">
+                    Discard Run
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ScriptEditor;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { EpisodeRecord } from '../services/seriesLog';
+
+interface SeriesLogProps {
+    episodes: EpisodeRecord[];
+    onDelete: (id: string) => void;
+    disabled?: boolean;
+}
+
+const SeriesLog: React.FC<SeriesLogProps> = ({ episodes, onDelete, disabled }) => {
+    if (episodes.length === 0) return null;
+
+    return (
+        <details className="mt-8 bg-slate-800/50 border border-slate-700 rounded-lg text-left">
+            <summary className="cursor-pointer px-4 py-3 font-semibold text-slate-300 select-none">
+                Series Log <span className="text-slate-500 font-normal">({episodes.length} episode{episodes.length === 1 ? '' : 's'})</span>
+            </summary>
+            <ol className="px-4 pb-4 space-y-3 text-sm">
+                {episodes.map((episode, index) => (
+                    <li key={episode.id} className="p-3 bg-slate-700/60 rounded-md">
+                        <div className="flex items-start justify-between gap-3">
+                            <p className="font-semibold text-slate-200">
+                                Episode {index + 1}: {episode.title}
+                                <span className="ml-2 text-xs font-normal text-slate-500">{new Date(episode.createdAt).toLocaleDateString()}</span>
+                            </p>
+                            <button
+                                onClick={() => onDelete(episode.id)}
+                                disabled={disabled}
+                                className="text-slate-400 hover:text-red-400 transition-colors"
+                                aria-label={`Remove "${episode.title}" from the series log`}
+                            >&times;</button>
+                        </div>
+                        <p className="text-slate-300 mt-1">{episode.synopsis}</p>
+                        {episode.newCharacters.length > 0 && <p className="text-xs text-slate-400 mt-1">Introduced: {episode.newCharacters.join(', ')}</p>}
+                        {episode.runningGags.length > 0 && <p className="text-xs text-slate-400 mt-1">Running gags: {episode.runningGags.join('; ')}</p>}
+                    </li>
+                ))}
+            </ol>
+        </details>
+    );
+};
+
+export default SeriesLog;
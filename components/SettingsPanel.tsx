@@ -0,0 +1,184 @@
+import React from 'react';
+import { AspectRatio } from '../services/modelProvider';
+import { GenerationSettings, ModelSettings, RequestLimits, ASPECT_RATIOS, DEFAULT_GENERATION_SETTINGS, MODEL_LABELS, normalizeGenerationSettings, modelsInUse } from '../services/settings';
+import { ModelPrice } from '../services/costLedger';
+
+interface SettingsPanelProps {
+    settings: GenerationSettings;
+    onChange: (settings: GenerationSettings) => void;
+    disabled?: boolean;
+}
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+    { key: 'inputPerMillion', label: 'Input / 1M tokens' },
+    { key: 'outputPerMillion', label: 'Output / 1M tokens' },
+    { key: 'perImage', label: 'Per image' },
+];
+
+const inputClass = 'w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 text-sm focus:outline-none focus:border-sky-500 disabled:opacity-50';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disabled }) => {
+    const update = (changes: Partial<GenerationSettings>) => onChange(normalizeGenerationSettings({ ...settings, ...changes }));
+    const updateModel = (role: keyof ModelSettings, name: string) => onChange({ ...settings, models: { ...settings.models, [role]: name } });
+    const updateLimits = (role: keyof ModelSettings, changes: Partial<RequestLimits>) =>
+        update({ requestLimits: { ...settings.requestLimits, [role]: { ...settings.requestLimits[role], ...changes } } });
+    const updatePrice = (model: string, key: keyof ModelPrice, value: number) => {
+        const price = settings.prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 };
+        update({ prices: { ...settings.prices, [model]: { ...price, [key]: value } } });
+    };
+
+    return (
+        <details className="mt-8 bg-slate-800/50 border border-slate-700 rounded-lg text-left">
+            <summary className="cursor-pointer px-4 py-3 font-semibold text-slate-300 select-none">Generation Settings</summary>
+            <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <label className="block">
+                    <span className="text-slate-400">Max scene images</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={settings.maxSceneImages}
+                        onChange={e => update({ maxSceneImages: e.target.valueAsNumber })}
+                        disabled={disabled}
+                        className={inputClass}
+                    />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Aspect ratio</span>
+                    <select
+                        value={settings.aspectRatio}
+                        onChange={e => update({ aspectRatio: e.target.value as AspectRatio })}
+                        disabled={disabled}
+                        className={inputClass}
+                    >
+                        {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                    </select>
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Character match threshold (0–1, lower is stricter)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={settings.characterMatchThreshold}
+                        onChange={e => update({ characterMatchThreshold: e.target.valueAsNumber })}
+                        disabled={disabled}
+                        className={inputClass}
+                    />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Character reference images per panel</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={settings.maxReferenceImages}
+                        onChange={e => update({ maxReferenceImages: e.target.valueAsNumber })}
+                        disabled={disabled}
+                        className={inputClass}
+                    />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Earlier episodes in the script prompt (0 disables)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        value={settings.continuityEpisodes}
+                        onChange={e => update({ continuityEpisodes: e.target.valueAsNumber })}
+                        disabled={disabled}
+                        className={inputClass}
+                    />
+                </label>
+                <label className="flex items-center gap-2 md:mt-5">
+                    <input
+                        type="checkbox"
+                        checked={settings.enforceMediumShot}
+                        onChange={e => update({ enforceMediumShot: e.target.checked })}
+                        disabled={disabled}
+                    />
+                    <span className="text-slate-300">Frame every storyboard panel as a medium shot</span>
+                </label>
+
+                <h4 className="md:col-span-2 font-semibold text-slate-300 mt-2">Models</h4>
+                {(Object.keys(MODEL_LABELS) as (keyof ModelSettings)[]).map(role => (
+                    <div key={role}>
+                        <label className="block">
+                            <span className="text-slate-400">{MODEL_LABELS[role]}</span>
+                            <input
+                                value={settings.models[role]}
+                                onChange={e => updateModel(role, e.target.value)}
+                                onBlur={() => update({})}
+                                placeholder={DEFAULT_GENERATION_SETTINGS.models[role]}
+                                disabled={disabled}
+                                className={`${inputClass} font-mono`}
+                            />
+                        </label>
+                        <div className="grid grid-cols-2 gap-2 mt-1">
+                            <label className="block text-xs">
+                                <span className="text-slate-500">Requests at once</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={16}
+                                    value={settings.requestLimits[role].maxConcurrency}
+                                    onChange={e => updateLimits(role, { maxConcurrency: e.target.valueAsNumber })}
+                                    disabled={disabled}
+                                    className={inputClass}
+                                />
+                            </label>
+                            <label className="block text-xs">
+                                <span className="text-slate-500">Timeout (seconds)</span>
+                                <input
+                                    type="number"
+                                    min={10}
+                                    max={900}
+                                    value={settings.requestLimits[role].timeoutSeconds}
+                                    onChange={e => updateLimits(role, { timeoutSeconds: e.target.valueAsNumber })}
+                                    disabled={disabled}
+                                    className={inputClass}
+                                />
+                            </label>
+                        </div>
+                    </div>
+                ))}
+
+                <h4 className="md:col-span-2 font-semibold text-slate-300 mt-2">Prices (USD)</h4>
+                <div className="md:col-span-2 space-y-2">
+                    {modelsInUse(settings).map(model => (
+                        <div key={model} className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+                            <span className="font-mono text-slate-300 break-all">{model}{!settings.prices[model] && <span className="block text-xs text-amber-400">not priced</span>}</span>
+                            {PRICE_FIELDS.map(({ key, label }) => (
+                                <label key={key} className="block">
+                                    <span className="text-xs text-slate-500">{label}</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={0.01}
+                                        value={settings.prices[model]?.[key] ?? 0}
+                                        onChange={e => updatePrice(model, key, e.target.valueAsNumber)}
+                                        disabled={disabled}
+                                        className={inputClass}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="md:col-span-2 text-right">
+                    <button
+                        onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}
+                        disabled={disabled}
+                        className="text-sky-400 hover:text-sky-300 font-medium transition-colors disabled:text-slate-600"
+                    >
+                        Reset to defaults
+                    </button>
+                </div>
+            </div>
+        </details>
+    );
+};
+
+export default SettingsPanel;
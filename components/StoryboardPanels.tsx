@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { GeneratedImage, Script } from '../types';
+import { applyImageStyle } from '../services/geminiService';
+import { buildSceneGraph, sceneForElement, isSameLocation } from '../services/sceneGraph';
+import Button from './Button';
+
+export interface CharacterReference {
+    name: string;
+    base64: string;
+    mimeType: string;
+}
+
+export type ContinuitySource = 'none' | 'previous' | 'next';
+
+export interface PanelRegenerationRequest {
+    prompt: string;
+    referenceNames: string[];
+    continuity: ContinuitySource;
+}
+
+interface StoryboardPanelsProps {
+    images: GeneratedImage[];
+    script: Script;
+    characterReferences: CharacterReference[];
+    stylePrompt: string;
+    regeneratingSceneIndex: number | null;
+    disabled: boolean;
+    onRegenerate: (sceneIndex: number, request: PanelRegenerationRequest) => void;
+}
+
+/**
+ * The editable panel prompt. Images restored from older zips only carry the final prompt,
+ * so the style prefix is stripped when it matches the current style.
+ */
+const editablePromptOf = (image: GeneratedImage, stylePrompt: string): string => {
+    if (image.panelPrompt) return image.panelPrompt;
+    const prefix = applyImageStyle('', stylePrompt);
+    return image.prompt.startsWith(prefix) ? image.prompt.slice(prefix.length) : image.prompt;
+};
+
+/** Reference names used for the panel, or failing that the references named in its prompt. */
+const defaultReferenceNames = (image: GeneratedImage, prompt: string, references: CharacterReference[]): string[] => {
+    if (image.referenceNames) return image.referenceNames.filter(name => references.some(ref => ref.name === name));
+    const upperPrompt = prompt.toUpperCase();
+    return references.filter(ref => upperPrompt.includes(ref.name.toUpperCase())).map(ref => ref.name);
+};
+
+const StoryboardPanels: React.FC<StoryboardPanelsProps> = ({ images, script, characterReferences, stylePrompt, regeneratingSceneIndex, disabled, onRegenerate }) => {
+    const [editingSceneIndex, setEditingSceneIndex] = useState<number | null>(null);
+    const [draft, setDraft] = useState<PanelRegenerationRequest>({ prompt: '', referenceNames: [], continuity: 'none' });
+
+    const startEditing = (image: GeneratedImage, panelIndex: number) => {
+        const prompt = editablePromptOf(image, stylePrompt);
+        const scenes = buildSceneGraph(script);
+        // Like the generation run, only chain to the previous panel while the location stays the same.
+        const previous = images[panelIndex - 1];
+        const chainsToPrevious = previous !== undefined && isSameLocation(sceneForElement(scenes, previous.sceneIndex), sceneForElement(scenes, image.sceneIndex));
+        setDraft({
+            prompt,
+            referenceNames: defaultReferenceNames(image, prompt, characterReferences),
+            continuity: chainsToPrevious ? 'previous' : 'none',
+        });
+        setEditingSceneIndex(image.sceneIndex);
+    };
+
+    const toggleReference = (name: string) => {
+        setDraft(prev => ({
+            ...prev,
+            referenceNames: prev.referenceNames.includes(name)
+                ? prev.referenceNames.filter(n => n !== name)
+                : [...prev.referenceNames, name],
+        }));
+    };
+
+    const handleSubmit = (sceneIndex: number) => {
+        onRegenerate(sceneIndex, { ...draft, prompt: draft.prompt.trim() });
+        setEditingSceneIndex(null);
+    };
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {images.map((image, panelIndex) => {
+                const sourceAction = script.scene_elements[image.sceneIndex]?.content;
+                const isEditing = editingSceneIndex === image.sceneIndex;
+                const isRegenerating = regeneratingSceneIndex === image.sceneIndex;
+                return (
+                    <div key={image.sceneIndex} className="bg-slate-900 rounded-lg overflow-hidden border border-slate-700">
+                        <div className="relative">
+                            <img src={image.imageUrl} alt={`Panel ${panelIndex + 1}`} className={`w-full aspect-video object-cover ${isRegenerating ? 'opacity-40' : ''}`} />
+                            {isRegenerating && (
+                                <p className="absolute inset-0 flex items-center justify-center text-sm font-semibold text-sky-300">Regenerating...</p>
+                            )}
+                        </div>
+                        <div className="p-4 space-y-2 text-sm">
+                            <p className="font-semibold text-slate-200">Panel {panelIndex + 1} <span className="text-slate-500 font-normal">· Scene Index {image.sceneIndex}</span></p>
+                            {sourceAction && <p className="text-slate-400 italic line-clamp-2">{sourceAction}</p>}
+
+                            {!isEditing ? (
+                                <>
+                                    <p className="text-slate-300 line-clamp-3">{editablePromptOf(image, stylePrompt)}</p>
+                                    <button
+                                        onClick={() => startEditing(image, panelIndex)}
+                                        disabled={disabled}
+                                        className="text-sky-400 hover:text-sky-300 font-medium transition-colors disabled:text-slate-600 disabled:cursor-not-allowed"
+                                    >
+                                        Edit &amp; Regenerate
+                                    </button>
+                                </>
+                            ) : (
+                                <div className="space-y-3">
+                                    <textarea
+                                        value={draft.prompt}
+                                        onChange={e => setDraft(prev => ({ ...prev, prompt: e.target.value }))}
+                                        rows={5}
+                                        className="w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200 text-xs font-mono focus:outline-none focus:border-sky-500"
+                                        aria-label="Panel prompt"
+                                    />
+                                    {characterReferences.length > 0 && (
+                                        <div>
+                                            <p className="text-slate-400 mb-1">Character references:</p>
+                                            <div className="flex flex-wrap gap-2">
+                                                {characterReferences.map(ref => (
+                                                    <label key={ref.name} className={`flex items-center gap-2 px-2 py-1 rounded-md cursor-pointer ${draft.referenceNames.includes(ref.name) ? 'bg-sky-900/60' : 'bg-slate-800'}`}>
+                                                        <input type="checkbox" checked={draft.referenceNames.includes(ref.name)} onChange={() => toggleReference(ref.name)} />
+                                                        <img src={`data:${ref.mimeType};base64,${ref.base64}`} alt={ref.name} className="w-6 h-6 rounded-full object-cover" />
+                                                        <span>{ref.name}</span>
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                    <label className="flex items-center gap-2 text-slate-400">
+                                        Continuity frame:
+                                        <select
+                                            value={draft.continuity}
+                                            onChange={e => setDraft(prev => ({ ...prev, continuity: e.target.value as ContinuitySource }))}
+                                            className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                                        >
+                                            <option value="none">None</option>
+                                            {panelIndex > 0 && <option value="previous">Previous panel</option>}
+                                            {panelIndex < images.length - 1 && <option value="next">Next panel</option>}
+                                        </select>
+                                    </label>
+                                    <div className="flex items-center gap-3">
+                                        <Button onClick={() => handleSubmit(image.sceneIndex)} disabled={disabled || !draft.prompt.trim()} className="px-4 py-2 text-sm">
+                                            Regenerate Panel
+                                        </Button>
+                                        <button onClick={() => setEditingSceneIndex(null)} className="text-slate-400 hover:text-slate-200 font-medium transition-colors">
+                                            Cancel
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default StoryboardPanels;
@@ -0,0 +1,258 @@
+/**
+ * CHARACTER ALIAS REGISTRY
+ * A script character goes by several names: the analyzed name ("Dr. Harlan Reyes"), the
+ * dialogue cue ("DOC"), the uploaded file name ("harlan.png") and library aliases. The
+ * registry groups those names into one identity per character, so a panel that mentions any
+ * of them resolves to the same character. Reference images are then mapped to identities
+ * rather than matched to whatever name a prompt happens to use; the proposed mapping is
+ * confirmed by the user before image generation.
+ *
+ * Two names are linked when their distinctive words overlap as a subset ("Harlan" and
+ * "Dr. Harlan Reyes"), or when one is only a title that the other carries ("Doc" and
+ * "Dr. Harlan"). A link is only made when exactly one identity qualifies; ambiguous names
+ * become identities of their own and are left to the review.
+ */
+
+export interface CharacterIdentity {
+    /** Display name: the analyzed name when there is one, else the first name seen. */
+    name: string;
+    /** Every other name the character goes by. */
+    aliases: string[];
+}
+
+/** A reference image that can be mapped to a character. */
+export interface ReferenceCandidate {
+    name: string;
+    /** Library aliases; empty for uploads and portraits. */
+    aliases: string[];
+}
+
+/** How a character's reference was chosen; 'portrait' when one was generated for want of any. */
+export type MappingSource = 'name' | 'alias' | 'fuzzy' | 'user' | 'portrait' | 'none';
+
+export interface CharacterMapping {
+    character: string;
+    aliases: string[];
+    /** Name of the reference image used for the character, or null for none. */
+    reference: string | null;
+    source: MappingSource;
+    /** The proposed reference when the user picked a different one. */
+    proposed?: string | null;
+}
+
+export interface ResolvedName {
+    identity: CharacterIdentity | null;
+    /** Set when the name was only resolved by fuzzy matching. */
+    distance: number | null;
+    normalizedDistance: number | null;
+}
+
+// Levenshtein distance function for fuzzy string matching
+export const levenshteinDistance = (a: string, b: string): number => {
+    const an = a ? a.length : 0;
+    const bn = b ? b.length : 0;
+    if (an === 0) return bn;
+    if (bn === 0) return an;
+    const matrix = Array(bn + 1).fill(null).map(() => Array(an + 1).fill(null));
+    for (let i = 0; i <= an; i += 1) {
+        matrix[0][i] = i;
+    }
+    for (let j = 0; j <= bn; j += 1) {
+        matrix[j][0] = j;
+    }
+    for (let j = 1; j <= bn; j += 1) {
+        for (let i = 1; i <= an; i += 1) {
+            const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+            matrix[j][i] = Math.min(
+                matrix[j][i - 1] + 1, // deletion
+                matrix[j - 1][i] + 1, // insertion
+                matrix[j - 1][i - 1] + substitutionCost, // substitution
+            );
+        }
+    }
+    return matrix[bn][an];
+};
+
+/** Titles and their common short forms, mapped to one spelling. */
+const TITLES: Record<string, string> = {
+    dr: 'doctor', doc: 'doctor', doctor: 'doctor',
+    prof: 'professor', professor: 'professor',
+    capt: 'captain', cap: 'captain', cpt: 'captain', captain: 'captain',
+    lt: 'lieutenant', lieutenant: 'lieutenant',
+    sgt: 'sergeant', sarge: 'sergeant', sergeant: 'sergeant',
+    det: 'detective', detective: 'detective',
+    cmdr: 'commander', commander: 'commander',
+    gen: 'general', general: 'general',
+    mr: 'mister', mister: 'mister', mrs: 'missus', ms: 'miss', miss: 'miss',
+    sir: 'sir', madam: 'madam', lady: 'lady', lord: 'lord',
+    officer: 'officer', agent: 'agent', nurse: 'nurse', father: 'father', sister: 'sister',
+};
+
+/** Lowercase letters and digits only; how names are compared for equality. */
+export const normalizeCharacterName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Drops dialogue cue extensions such as (V.O.), (CONT'D) and the dual-dialogue caret. */
+const stripCueExtensions = (name: string) => name.replace(/\s*\([^)]*\)/g, '').replace(/\s*\^\s*$/, '').trim();
+
+const wordsOf = (name: string) => {
+    const words = stripCueExtensions(name).toLowerCase().replace(/[_]+/g, ' ').split(/[^a-z0-9]+/).filter(Boolean);
+    return {
+        distinctive: words.filter(word => !TITLES[word]),
+        titles: words.filter(word => TITLES[word]).map(word => TITLES[word]),
+    };
+};
+
+const isSubset = (a: string[], b: string[]) => a.every(word => b.includes(word));
+
+const namesLinked = (a: string, b: string): boolean => {
+    if (normalizeCharacterName(stripCueExtensions(a)) === normalizeCharacterName(stripCueExtensions(b))) return true;
+    const wa = wordsOf(a);
+    const wb = wordsOf(b);
+    if (wa.distinctive.length > 0 && wb.distinctive.length > 0) {
+        return isSubset(wa.distinctive, wb.distinctive) || isSubset(wb.distinctive, wa.distinctive);
+    }
+    // A bare title ("Doc") links to a name carrying that title ("Dr. Harlan").
+    if (wa.distinctive.length === 0 && wa.titles.length > 0) return isSubset(wa.titles, wb.titles);
+    if (wb.distinctive.length === 0 && wb.titles.length > 0) return isSubset(wb.titles, wa.titles);
+    return false;
+};
+
+const namesOf = (identity: CharacterIdentity) => [identity.name, ...identity.aliases];
+
+const exactIdentity = (identities: CharacterIdentity[], name: string) => {
+    const target = normalizeCharacterName(stripCueExtensions(name));
+    return target ? identities.find(identity => namesOf(identity).some(n => normalizeCharacterName(n) === target)) : undefined;
+};
+
+/** The identities `name` links to: only the exact one when there is one. */
+const linkedIdentities = (identities: CharacterIdentity[], name: string) => {
+    const exact = exactIdentity(identities, name);
+    return exact ? [exact] : identities.filter(identity => namesOf(identity).some(n => namesLinked(name, n)));
+};
+
+/** The one identity linked to `name`, or undefined when none or several are. */
+const linkedIdentity = (identities: CharacterIdentity[], name: string) => {
+    const linked = linkedIdentities(identities, name);
+    return linked.length === 1 ? linked[0] : undefined;
+};
+
+const addAlias = (identity: CharacterIdentity, name: string) => {
+    const clean = stripCueExtensions(name);
+    if (clean && !namesOf(identity).some(n => normalizeCharacterName(n) === normalizeCharacterName(clean))) identity.aliases.push(clean);
+};
+
+export interface AliasSources {
+    analyzedNames: string[];
+    dialogueCues: string[];
+    /** Uploaded image names (file names without extension). */
+    fileNames: string[];
+    /** Library characters' canonical names and aliases, grouped per character. */
+    libraryNames: string[][];
+}
+
+/**
+ * Builds one identity per character. Analyzed names and dialogue cues create identities;
+ * file names and library names add aliases to an identity they link to, and create their own
+ * when they link to none, so a reference for a character the analysis missed still reaches
+ * the mapping review. A name linked to several identities is left for the review to place.
+ */
+export const buildAliasRegistry = (sources: AliasSources): CharacterIdentity[] => {
+    const identities: CharacterIdentity[] = [];
+    for (const name of sources.analyzedNames) {
+        const clean = stripCueExtensions(name);
+        if (clean && !exactIdentity(identities, clean)) identities.push({ name: clean, aliases: [] });
+    }
+    for (const cue of sources.dialogueCues) {
+        const clean = stripCueExtensions(cue);
+        if (!normalizeCharacterName(clean)) continue;
+        const identity = linkedIdentity(identities, clean);
+        if (identity) addAlias(identity, clean);
+        else identities.push({ name: clean, aliases: [] });
+    }
+    for (const names of sources.libraryNames) {
+        const identity = names.map(name => exactIdentity(identities, name)).find(Boolean);
+        if (identity) {
+            names.forEach(name => addAlias(identity, name));
+        } else if (names.every(name => linkedIdentities(identities, name).length === 0)) {
+            const [name, ...aliases] = names.map(stripCueExtensions).filter(Boolean);
+            if (!name) continue;
+            const identity: CharacterIdentity = { name, aliases: [] };
+            aliases.forEach(alias => addAlias(identity, alias));
+            identities.push(identity);
+        }
+    }
+    for (const fileName of sources.fileNames) {
+        const name = fileName.replace(/[_-]+/g, ' ').trim();
+        const linked = linkedIdentities(identities, name);
+        if (linked.length === 1) addAlias(linked[0], name);
+        else if (linked.length === 0 && normalizeCharacterName(name)) identities.push({ name, aliases: [] });
+    }
+    return identities;
+};
+
+/**
+ * Resolves a name used in a panel prompt to a character: exact or linked names first, then
+ * the closest name by edit distance when it is within `fuzzyThreshold` (0-1).
+ */
+export const resolveCharacterName = (identities: CharacterIdentity[], name: string, fuzzyThreshold: number): ResolvedName => {
+    const linked = linkedIdentity(identities, name);
+    if (linked) return { identity: linked, distance: null, normalizedDistance: null };
+    const target = normalizeCharacterName(stripCueExtensions(name));
+    let best: ResolvedName = { identity: null, distance: null, normalizedDistance: null };
+    if (!target) return best;
+    for (const identity of identities) {
+        for (const candidate of namesOf(identity).map(normalizeCharacterName).filter(Boolean)) {
+            const distance = levenshteinDistance(target, candidate);
+            const normalizedDistance = distance / Math.max(target.length, candidate.length);
+            if (best.normalizedDistance === null || normalizedDistance < best.normalizedDistance) best = { identity, distance, normalizedDistance };
+        }
+    }
+    return best.normalizedDistance !== null && best.normalizedDistance < fuzzyThreshold ? best : { ...best, identity: null };
+};
+
+const referenceNamesOf = (ref: ReferenceCandidate) => [ref.name, ...ref.aliases].map(n => n.replace(/[_-]+/g, ' '));
+
+const nameDistance = (a: string, b: string) => {
+    const na = normalizeCharacterName(a);
+    const nb = normalizeCharacterName(b);
+    return na && nb ? levenshteinDistance(na, nb) / Math.max(na.length, nb.length) : 1;
+};
+
+/**
+ * Proposes a reference image per character: one whose name (or library alias) is one of
+ * the character's names, else the only one linked to this character alone, else the closest
+ * by edit distance within `fuzzyThreshold`.
+ */
+export const proposeCharacterMapping = (identities: CharacterIdentity[], references: ReferenceCandidate[], fuzzyThreshold: number): CharacterMapping[] => {
+    // Which identities each reference links to; a reference linked to several is ambiguous.
+    const linksOf = new Map(references.map(ref => [ref, identities.filter(identity =>
+        namesOf(identity).some(name => referenceNamesOf(ref).some(n => namesLinked(n, name))))]));
+
+    return identities.map(identity => {
+        const base = { character: identity.name, aliases: identity.aliases };
+        const names = namesOf(identity).map(normalizeCharacterName);
+
+        const exact = references.find(ref => referenceNamesOf(ref).some(n => names.includes(normalizeCharacterName(n))));
+        if (exact) {
+            return { ...base, reference: exact.name, source: normalizeCharacterName(exact.name) === normalizeCharacterName(identity.name) ? 'name' : 'alias' };
+        }
+
+        const linked = references.filter(ref => { const links = linksOf.get(ref)!; return links.length === 1 && links[0] === identity; });
+        if (linked.length === 1) return { ...base, reference: linked[0].name, source: 'alias' };
+
+        const closest = references
+            .map(ref => ({ ref, distance: Math.min(...referenceNamesOf(ref).flatMap(n => namesOf(identity).map(name => nameDistance(n, name)))) }))
+            .sort((a, b) => a.distance - b.distance)[0];
+        if (closest && closest.distance < fuzzyThreshold) return { ...base, reference: closest.ref.name, source: 'fuzzy' };
+        return { ...base, reference: null, source: 'none' };
+    });
+};
+
+export const describeCharacterMapping = (mapping: CharacterMapping): string => {
+    const aliases = mapping.aliases.length > 0 ? ` (also ${mapping.aliases.join(', ')})` : '';
+    const reference = mapping.reference ?? 'no reference image';
+    const how = mapping.source === 'user'
+        ? `chosen by the user${mapping.proposed !== undefined ? `; proposed: ${mapping.proposed ?? 'none'}` : ''}`
+        : { name: 'same name', alias: 'matched by alias', fuzzy: 'similar spelling', portrait: 'generated portrait', none: 'no match' }[mapping.source];
+    return `${mapping.character}${aliases} -> ${reference} [${how}]`;
+};
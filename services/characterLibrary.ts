@@ -0,0 +1,98 @@
+import { idbGetAll, idbPut, idbDelete, STORES } from './db';
+import { AnalyzedCharacter, CharacterImage } from '../types';
+
+/**
+ * CHARACTER LIBRARY
+ * Characters kept across episodes: reference images, the analyzed descriptors and a
+ * canonical name with aliases. Selected library characters are used for a run exactly like
+ * uploaded character images, and their descriptors take precedence over the model's analysis.
+ */
+
+export interface LibraryCharacter {
+    id: string;
+    name: string;
+    aliases: string[];
+    descriptors?: Omit<AnalyzedCharacter, 'name'>;
+    images: CharacterImage[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const descriptorsOf = (character?: AnalyzedCharacter): LibraryCharacter['descriptors'] => character && {
+    gender: character.gender,
+    race: character.race,
+    voiceDescription: character.voiceDescription,
+    otherDescriptors: character.otherDescriptors,
+};
+
+/**
+ * Finds the library character whose canonical name or one of whose aliases matches `name`,
+ * ignoring case, spacing and punctuation.
+ */
+export const findLibraryCharacter = (characters: LibraryCharacter[], name: string): LibraryCharacter | undefined => {
+    const target = normalizeName(name);
+    if (!target) return undefined;
+    return characters.find(c => [c.name, ...c.aliases].some(n => normalizeName(n) === target));
+};
+
+export const createLibraryCharacter = (name: string, images: CharacterImage[], descriptors?: AnalyzedCharacter): LibraryCharacter => {
+    const now = new Date().toISOString();
+    return {
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        aliases: [],
+        descriptors: descriptorsOf(descriptors),
+        images,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+/**
+ * Adds a reference image (and descriptors, if the entry has none yet) to the library entry
+ * matching `name`, or creates a new entry.
+ */
+export const addToLibrary = (characters: LibraryCharacter[], name: string, image: CharacterImage, descriptors?: AnalyzedCharacter): LibraryCharacter => {
+    const existing = findLibraryCharacter(characters, name);
+    if (!existing) return createLibraryCharacter(name, [image], descriptors);
+    return {
+        ...existing,
+        images: existing.images.some(img => img.base64 === image.base64) ? existing.images : [...existing.images, image],
+        descriptors: existing.descriptors ?? descriptorsOf(descriptors),
+        updatedAt: new Date().toISOString(),
+    };
+};
+
+/**
+ * Overlays a library character's stored descriptors on the model's analysis of the same
+ * character; the model's values are kept wherever the library has none.
+ */
+export const applyLibraryDescriptors = (character: AnalyzedCharacter, libraryCharacter: LibraryCharacter): AnalyzedCharacter => {
+    const stored = libraryCharacter.descriptors;
+    if (!stored) return character;
+    return {
+        name: character.name,
+        gender: stored.gender !== 'unknown' ? stored.gender : character.gender,
+        race: stored.race ?? character.race,
+        voiceDescription: stored.voiceDescription ?? character.voiceDescription,
+        otherDescriptors: stored.otherDescriptors ?? character.otherDescriptors,
+    };
+};
+
+export async function listLibraryCharacters(): Promise<LibraryCharacter[]> {
+    const characters = await idbGetAll<LibraryCharacter>(STORES.characters);
+    return characters.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Stores the character and returns it with its `updatedAt` refreshed. */
+export async function saveLibraryCharacter(character: LibraryCharacter): Promise<LibraryCharacter> {
+    const saved = { ...character, updatedAt: new Date().toISOString() };
+    await idbPut(STORES.characters, saved.id, saved);
+    return saved;
+}
+
+export async function deleteLibraryCharacter(id: string): Promise<void> {
+    await idbDelete(STORES.characters, id);
+}
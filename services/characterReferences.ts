@@ -0,0 +1,109 @@
+import { CharacterImage } from '../types';
+
+/**
+ * CHARACTER REFERENCE SETS
+ * A character can have several reference images. In an input zip they sit in a folder per
+ * character under `characters/`; any sub-folders and the file name become tags describing the
+ * image (expression, outfit or angle):
+ *
+ *     characters/alice/front.png              -> alice, tags: front
+ *     characters/alice/uniform/angry_side.png -> alice, tags: uniform, angry, side
+ *
+ * Images anywhere else are keyed by their file name as before (`alice.png` -> alice, no tags).
+ * Images with the same name are collected into one set instead of replacing each other.
+ */
+
+const CHARACTER_FOLDER_PATTERN = /(^|\/)characters\/([^/]+)\/(.+)$/i;
+
+/** Angle and framing words; an image tagged only with these suits any panel. */
+const VIEW_TAGS = new Set([
+    'front', 'back', 'side', 'profile', 'left', 'right', 'threequarter', 'three', 'quarter',
+    'closeup', 'close', 'up', 'headshot', 'head', 'portrait', 'full', 'body', 'fullbody', 'turnaround', 'reference', 'ref',
+]);
+
+const wordsOf = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word && !/^\d+$/.test(word));
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^/.]+$/, '');
+
+/** The character an uploaded image belongs to, and its tags. */
+export const characterReferenceFromPath = (path: string): { name: string; tags: string[] } => {
+    const inFolder = path.match(CHARACTER_FOLDER_PATTERN);
+    if (inFolder) {
+        const [, , folder, rest] = inFolder;
+        return { name: folder.toLowerCase(), tags: [...new Set(wordsOf(stripExtension(rest)))] };
+    }
+    return { name: stripExtension(path.split('/').pop()!).toLowerCase(), tags: [] };
+};
+
+/** Adds images to the named sets; an image with the same file name as one already there replaces it. */
+export const mergeReferenceSets = (
+    sets: Record<string, CharacterImage[]>,
+    additions: Record<string, CharacterImage[]>,
+): Record<string, CharacterImage[]> => {
+    const merged = { ...sets };
+    for (const [name, images] of Object.entries(additions)) {
+        const kept = (merged[name] ?? []).filter(existing => !(images as CharacterImage[]).some(image => image.fileName === existing.fileName));
+        merged[name] = [...kept, ...(images as CharacterImage[])];
+    }
+    return merged;
+};
+
+/**
+ * Reads character images saved before reference sets existed, when each name held a single
+ * image, as one-image sets.
+ */
+export const normalizeReferenceSets = (raw: Record<string, CharacterImage | CharacterImage[]>): Record<string, CharacterImage[]> =>
+    Object.fromEntries(Object.entries(raw).map(([name, value]) => [name, Array.isArray(value) ? value : [value as CharacterImage]]));
+
+export interface ReferenceImage {
+    /** The character the image shows, as the image model is told. */
+    name: string;
+    base64: string;
+    mimeType: string;
+    fileName?: string;
+    tags?: string[];
+}
+
+export interface ReferenceSet {
+    name: string;
+    images: { base64: string; mimeType: string; fileName?: string; tags?: string[] }[];
+}
+
+/**
+ * Picks reference images for one panel, at most `cap` in total. Every character first gets its
+ * best image, in the order given, then the remaining slots go to further images that suit the
+ * panel. An image suits it better the more of its tags appear in the panel text; one tagged
+ * for something the panel doesn't mention (another outfit, another expression) is only used
+ * when it is the character's best.
+ */
+export const selectReferenceImages = (sets: ReferenceSet[], panelText: string, cap: number): ReferenceImage[] => {
+    const panelWords = new Set(wordsOf(panelText));
+    const ranked = sets.map(set => set.images
+        .map((image, index) => {
+            const tags = image.tags ?? [];
+            const matched = tags.filter(tag => panelWords.has(tag)).length;
+            const conflicting = tags.filter(tag => !panelWords.has(tag) && !VIEW_TAGS.has(tag)).length;
+            return { image: { name: set.name, ...image }, matched, conflicting, index };
+        })
+        .sort((a, b) => b.matched - a.matched || a.conflicting - b.conflicting || a.index - b.index));
+
+    const chosen: ReferenceImage[] = [];
+    for (const candidates of ranked) {
+        if (chosen.length < cap && candidates.length > 0) chosen.push(candidates[0].image);
+    }
+    const extras = ranked
+        .flatMap((candidates, characterIndex) => candidates.slice(1)
+            .filter(candidate => candidate.matched > 0 || candidate.conflicting === 0)
+            .map(candidate => ({ ...candidate, characterIndex })))
+        .sort((a, b) => b.matched - a.matched || a.characterIndex - b.characterIndex || a.index - b.index);
+    for (const extra of extras) {
+        if (chosen.length >= cap) break;
+        chosen.push(extra.image);
+    }
+    return chosen;
+};
+
+/** Lists the chosen images per character, for the report. */
+export const describeReferenceImages = (images: ReferenceImage[]): string => images
+    .map(image => `${image.name}: ${image.fileName?.split('/').pop() ?? 'image'}${image.tags && image.tags.length > 0 ? ` [${image.tags.join(', ')}]` : ''}`)
+    .join('; ');
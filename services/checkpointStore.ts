@@ -0,0 +1,103 @@
+
+import { idbGet, idbPut, idbDelete, STORES } from './db';
+import {
+    Script, StoryElements, AnalyzedCharacter, CharacterImage, TextFile, CohesivePrompt,
+    GeneratedImage, GeneratedCharacterPortrait, GeneratedAudio, Hs3000Line,
+} from '../types';
+import { GenerationSettings } from './settings';
+import { LibraryCharacter } from './characterLibrary';
+import { GenerationReport, createGenerationReport, isGenerationReport, legacyGenerationReport } from './generationReport';
+import { attachHs3000Lines } from './hs3000';
+import { CharacterMapping } from './aliasRegistry';
+import { normalizeReferenceSets } from './characterReferences';
+import { configuredProviderName } from './modelProvider';
+
+/**
+ * GENERATION CHECKPOINTS
+ * handleGenerate persists each stage's output here as soon as it finishes, so a run that
+ * fails or is interrupted (e.g. by a page refresh) can pick up where it stopped instead
+ * of paying for the same model calls again. Only one run is resumable at a time.
+ */
+
+const CURRENT_RUN_KEY = 'current';
+
+export interface PipelineInputs {
+    textFiles: TextFile[];
+    /** Reference images per character name; a character can have several. */
+    characterImages: Record<string, CharacterImage[]>;
+    /** Set images from a `locations/` folder, keyed by location name; absent on older checkpoints. */
+    locationImages?: Record<string, CharacterImage>;
+    stylePrompt: string;
+    storyPrompt: string;
+    importedScript: Script | null;
+    /** Absent on checkpoints saved before generation settings existed. */
+    settings?: GenerationSettings;
+    /** Library characters selected for the run, copied so later library edits don't affect a resume. */
+    libraryCharacters?: LibraryCharacter[];
+}
+
+export interface PipelineCheckpoint {
+    startedAt: string;
+    updatedAt: string;
+    inputs: PipelineInputs;
+    report: GenerationReport;
+    storyElements?: StoryElements;
+    script?: Script;
+    /** False while the script awaits review in the editor; absent on checkpoints saved before the review step existed. */
+    scriptReviewed?: boolean;
+    analyzedCharacters?: AnalyzedCharacter[];
+    portraits: Record<string, GeneratedCharacterPortrait>;
+    portraitsComplete: boolean;
+    cohesivePrompts?: CohesivePrompt[];
+    /** Character to reference image mapping used for the scene images. */
+    characterMapping?: CharacterMapping[];
+    /** False while the proposed mapping awaits review; absent when no review was needed. */
+    mappingReviewed?: boolean;
+    images: GeneratedImage[];
+    hs3000Lines?: Hs3000Line[];
+    audio: GeneratedAudio[];
+}
+
+export const createCheckpoint = (inputs: PipelineInputs): PipelineCheckpoint => {
+    const now = new Date().toISOString();
+    return { startedAt: now, updatedAt: now, inputs, report: createGenerationReport(inputs.settings, configuredProviderName()), scriptReviewed: false, portraits: {}, portraitsComplete: false, images: [], audio: [] };
+};
+
+/**
+ * Describes the last stage a checkpoint completed, for display in the UI.
+ */
+export const describeCheckpoint = (checkpoint: PipelineCheckpoint): string => {
+    if (checkpoint.audio.length > 0) return `${checkpoint.audio.length} dialogue recording(s) done`;
+    if (checkpoint.hs3000Lines) return 'HS3000 dialogue done';
+    if (checkpoint.images.length > 0) return `${checkpoint.images.length} of ${checkpoint.cohesivePrompts?.length ?? '?'} scene images done`;
+    if (checkpoint.cohesivePrompts) return 'storyboard prompts done';
+    if (checkpoint.portraitsComplete || Object.keys(checkpoint.portraits).length > 0) return 'character portraits done';
+    if (checkpoint.characterMapping) return `character mapping ${checkpoint.mappingReviewed === false ? 'awaiting review' : 'done'}`;
+    if (checkpoint.analyzedCharacters) return 'character analysis done';
+    if (checkpoint.script) return `script "${checkpoint.script.title}" ${checkpoint.scriptReviewed === false ? 'awaiting review' : 'done'}`;
+    if (checkpoint.storyElements) return 'story analysis done';
+    return 'not started';
+};
+
+export async function saveCheckpoint(checkpoint: PipelineCheckpoint): Promise<void> {
+    await idbPut(STORES.checkpoints, CURRENT_RUN_KEY, { ...checkpoint, updatedAt: new Date().toISOString() });
+}
+
+export async function loadCheckpoint(): Promise<PipelineCheckpoint | null> {
+    const checkpoint = await idbGet<PipelineCheckpoint>(STORES.checkpoints, CURRENT_RUN_KEY);
+    if (!checkpoint) return null;
+    // Checkpoints saved before the structured report existed hold the report as plain text.
+    const report: unknown = checkpoint.report;
+    const migrated = isGenerationReport(report) ? checkpoint : { ...checkpoint, report: legacyGenerationReport(typeof report === 'string' ? report : '') };
+    // HS3000 lines saved before they carried a scene index are matched to their panels by position.
+    if (migrated.hs3000Lines && migrated.script && migrated.hs3000Lines.some(line => typeof line.sceneIndex !== 'number')) {
+        migrated.hs3000Lines = attachHs3000Lines(migrated.hs3000Lines.map(({ character, dialogue }) => ({ character, dialogue })), migrated.images, migrated.script).lines;
+    }
+    // Character images saved before reference sets existed hold one image per name.
+    migrated.inputs = { ...migrated.inputs, characterImages: normalizeReferenceSets(migrated.inputs.characterImages) };
+    return migrated;
+}
+
+export async function clearCheckpoint(): Promise<void> {
+    await idbDelete(STORES.checkpoints, CURRENT_RUN_KEY);
+}
@@ -0,0 +1,156 @@
+/**
+ * COST LEDGER
+ * Every model call records the token usage reported by the provider in the generation report.
+ * This module prices that usage against a per-model price table (editable in the settings
+ * panel) and estimates the cost of the image stage before it runs.
+ */
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    /** Images returned by the call; priced separately when the model has a per-image price. */
+    images: number;
+}
+
+/** Prices in US dollars. */
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    perImage: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Published list prices when these defaults were written; check the provider's pricing page
+ * and adjust in the settings panel. Image output is billed as tokens, so perImage stays 0.
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50, perImage: 0 },
+    'gemini-3-pro-preview': { inputPerMillion: 2.00, outputPerMillion: 12.00, perImage: 0 },
+    'gemini-3-flash-preview': { inputPerMillion: 0.50, outputPerMillion: 3.00, perImage: 0 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.30, outputPerMillion: 30.00, perImage: 0 },
+    'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.50, outputPerMillion: 10.00, perImage: 0 },
+};
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, images: 0 };
+
+/** Tokens billed for each image sent to or returned by the image model. */
+export const IMAGE_INPUT_TOKENS = 258;
+export const IMAGE_OUTPUT_TOKENS = 1290;
+
+/** Rough token count for text, used where the provider reports none and for estimates. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    images: a.images + b.images,
+});
+
+const nonNegative = (value: unknown): number =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+
+/**
+ * Keeps well-formed entries from a stored table and fills in any default model it lacks.
+ */
+export const normalizePriceTable = (raw: unknown): PriceTable => {
+    const table: PriceTable = { ...DEFAULT_PRICE_TABLE };
+    if (typeof raw !== 'object' || raw === null) return table;
+    for (const [model, price] of Object.entries(raw as Record<string, unknown>)) {
+        if (!model.trim() || typeof price !== 'object' || price === null) continue;
+        const stored = price as Partial<Record<keyof ModelPrice, unknown>>;
+        table[model.trim()] = {
+            inputPerMillion: nonNegative(stored.inputPerMillion),
+            outputPerMillion: nonNegative(stored.outputPerMillion),
+            perImage: nonNegative(stored.perImage),
+        };
+    }
+    return table;
+};
+
+/** Returns null when the model has no entry in the price table. */
+export const priceUsage = (model: string, usage: TokenUsage, prices: PriceTable): number | null => {
+    const price = prices[model];
+    if (!price) return null;
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+        + usage.images * price.perImage;
+};
+
+export interface ModelCost {
+    model: string;
+    calls: number;
+    usage: TokenUsage;
+    /** Null when the model is missing from the price table. */
+    costUsd: number | null;
+}
+
+export interface CostSummary {
+    /** Sum over priced models only; see unpricedModels for what it leaves out. */
+    totalUsd: number;
+    usage: TokenUsage;
+    byModel: ModelCost[];
+    unpricedModels: string[];
+}
+
+/**
+ * Totals the usage of a run's model calls per model and prices it. Calls without recorded
+ * usage (e.g. from a report written before usage was tracked) count as calls only.
+ */
+export const summarizeCosts = (calls: { model: string; usage?: TokenUsage }[], prices: PriceTable): CostSummary => {
+    const byModel = new Map<string, { calls: number; usage: TokenUsage }>();
+    for (const call of calls) {
+        const entry = byModel.get(call.model) ?? { calls: 0, usage: EMPTY_USAGE };
+        byModel.set(call.model, { calls: entry.calls + 1, usage: addUsage(entry.usage, call.usage ?? EMPTY_USAGE) });
+    }
+    const models = [...byModel.entries()].map(([model, { calls, usage }]) => ({ model, calls, usage, costUsd: priceUsage(model, usage, prices) }));
+    return {
+        totalUsd: models.reduce((sum, m) => sum + (m.costUsd ?? 0), 0),
+        usage: models.reduce((sum, m) => addUsage(sum, m.usage), EMPTY_USAGE),
+        byModel: models,
+        unpricedModels: models.filter(m => m.costUsd === null).map(m => m.model),
+    };
+};
+
+export interface ImageCallPlan {
+    /** The full prompt text that will be sent. */
+    prompt: string;
+    /** Character references plus the continuity frame, if any. */
+    referenceImages: number;
+}
+
+export interface CostEstimate {
+    calls: number;
+    usage: TokenUsage;
+    costUsd: number | null;
+}
+
+/**
+ * Estimates the cost of a batch of image calls, assuming every call returns one image.
+ */
+export const estimateImageCalls = (plans: ImageCallPlan[], model: string, prices: PriceTable): CostEstimate => {
+    const usage = plans.reduce<TokenUsage>((sum, plan) => addUsage(sum, {
+        inputTokens: estimateTokens(plan.prompt) + plan.referenceImages * IMAGE_INPUT_TOKENS,
+        outputTokens: IMAGE_OUTPUT_TOKENS,
+        images: 1,
+    }), EMPTY_USAGE);
+    return { calls: plans.length, usage, costUsd: priceUsage(model, usage, prices) };
+};
+
+export const formatUsd = (amount: number | null) =>
+    amount === null ? 'unpriced' : `$${amount < 0.01 && amount > 0 ? amount.toFixed(4) : amount.toFixed(2)}`;
+
+export const describeUsage = (usage: TokenUsage) =>
+    `${usage.inputTokens.toLocaleString('en-US')} in / ${usage.outputTokens.toLocaleString('en-US')} out tokens${usage.images > 0 ? `, ${usage.images} image(s)` : ''}`;
+
+export const describeEstimate = (estimate: CostEstimate) =>
+    `${estimate.calls} image call(s), about ${describeUsage(estimate.usage)}: ~${formatUsd(estimate.costUsd)}`;
+
+/**
+ * Formats a cost summary for the plain-text report.
+ */
+export const describeCostSummary = (summary: CostSummary): string => [
+    `Total: ${formatUsd(summary.totalUsd)} (${describeUsage(summary.usage)})`,
+    ...summary.byModel.map(m => `  - ${m.model}: ${m.calls} call(s), ${describeUsage(m.usage)}, ${formatUsd(m.costUsd)}`),
+    ...(summary.unpricedModels.length > 0 ? [`Not in the price table (excluded from the total): ${summary.unpricedModels.join(', ')}`] : []),
+].join('\n');
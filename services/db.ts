@@ -0,0 +1,62 @@
+
+/**
+ * INDEXEDDB PERSISTENCE
+ * Thin promise wrappers around the browser's IndexedDB. Every object store used by
+ * the app is created here so schema upgrades live in one place.
+ */
+
+const DB_NAME = 'bot-thotle';
+const DB_VERSION = 3;
+
+export const STORES = {
+    checkpoints: 'checkpoints',
+    characters: 'characters',
+    episodes: 'episodes',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const store of Object.values(STORES)) {
+                    if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const request = action(tx.objectStore(store));
+        tx.oncomplete = () => resolve(request.result as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const idbGet = <T>(store: StoreName, key: string): Promise<T | undefined> =>
+    runRequest<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+    runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbPut = <T>(store: StoreName, key: string, value: T): Promise<void> =>
+    runRequest<void>(store, 'readwrite', s => s.put(value, key));
+
+export const idbDelete = (store: StoreName, key: string): Promise<void> =>
+    runRequest<void>(store, 'readwrite', s => s.delete(key));
@@ -0,0 +1,59 @@
+
+import { Script, SceneElement } from '../types';
+
+/**
+ * FINAL DRAFT (.fdx) EXPORT
+ * FDX is an XML document whose <Content> is a flat list of typed <Paragraph> elements,
+ * which maps one-to-one onto our SceneElement types.
+ */
+
+type FdxParagraphType = 'Scene Heading' | 'Action' | 'Character' | 'Parenthetical' | 'Dialogue' | 'Transition';
+
+const escapeXml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+const paragraph = (type: FdxParagraphType, text: string, alignment?: string): string =>
+    `    <Paragraph${alignment ? ` Alignment="${alignment}"` : ''} Type="${type}">\n      <Text>${escapeXml(text)}</Text>\n    </Paragraph>`;
+
+const elementToParagraphs = (el: SceneElement): string[] => {
+    switch (el.type) {
+        case 'scene_heading':
+            return [paragraph('Scene Heading', el.content.trim().toUpperCase())];
+        case 'action':
+            // Final Draft keeps each action line as its own paragraph.
+            return el.content.split('\n').map(l => l.trim()).filter(Boolean).map(l => paragraph('Action', l));
+        case 'transition':
+            return [paragraph('Transition', el.content.trim().toUpperCase())];
+        case 'dialogue_block':
+            return [
+                paragraph('Character', el.character.trim().toUpperCase()),
+                ...el.elements.map(part => part.type === 'parenthetical'
+                    ? paragraph('Parenthetical', `(${part.content.trim().replace(/^\(|\)$/g, '')})`)
+                    : paragraph('Dialogue', part.content.trim().replace(/\s*\n\s*/g, ' '))),
+            ];
+    }
+};
+
+/**
+ * Serializes a Script to a Final Draft XML document, with the title on its title page.
+ */
+export const scriptToFdx = (script: Script): string => {
+    const body = script.scene_elements.flatMap(elementToParagraphs).join('\n');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+${body}
+  </Content>
+  <TitlePage>
+    <Content>
+${paragraph('Action', script.title, 'Center')}
+    </Content>
+  </TitlePage>
+</FinalDraft>
+`;
+};
@@ -0,0 +1,170 @@
+
+import { Script, SceneElement, DialogueBlock } from '../types';
+
+/**
+ * FOUNTAIN SCREENPLAY FORMAT
+ * Plain-text screenplay markup understood by most screenwriting tools (https://fountain.io).
+ * Elements are separated by blank lines; ambiguous elements are "forced" with a prefix
+ * character so that a round trip through scriptToFountain/parseFountain is lossless.
+ */
+
+const SCENE_HEADING_PATTERN = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+const TRANSITION_PATTERN = /^[A-Z0-9 .'\-]+TO:$/;
+const CHARACTER_EXTENSION_PATTERN = /\s*(\([^)]*\))*\s*\^?\s*$/;
+const TITLE_PAGE_KEY_PATTERN = /^(title|credit|authors?|source|draft date|date|contact|copyright|notes|revision):\s*(.*)$/i;
+/** Section (`#`), synopsis (`=`) and page break (`===`) lines. */
+const NON_PRINTING_LINE_PATTERN = /^\s*(#|=(?!==)|===+\s*$)/;
+
+const isUpperCase = (text: string) => /[A-Z]/.test(text) && text === text.toUpperCase();
+
+const stripParens = (text: string) => text.trim().replace(/^\(/, '').replace(/\)$/, '').trim();
+
+const formatSceneHeading = (content: string): string => {
+    const heading = content.trim().toUpperCase();
+    return SCENE_HEADING_PATTERN.test(heading) ? heading : `.${heading}`;
+};
+
+const formatAction = (content: string): string => {
+    const action = content.trim();
+    const firstLine = action.split('\n')[0];
+    const isAmbiguous = SCENE_HEADING_PATTERN.test(firstLine)
+        || isUpperCase(firstLine)
+        || /^[.!@~>=#\[]/.test(firstLine);
+    return isAmbiguous ? `!${action}` : action;
+};
+
+const formatTransition = (content: string): string => {
+    const transition = content.trim().toUpperCase();
+    return TRANSITION_PATTERN.test(transition) ? transition : `> ${transition}`;
+};
+
+const formatDialogueBlock = (block: DialogueBlock): string => {
+    const name = block.character.trim().toUpperCase();
+    const cue = /[A-Z]/.test(name) ? name : `@${name}`;
+    const lines = [cue];
+    block.elements.forEach(part => {
+        if (part.type === 'parenthetical') {
+            lines.push(`(${stripParens(part.content)})`);
+        } else {
+            lines.push(part.content.trim());
+        }
+    });
+    return lines.join('\n');
+};
+
+/**
+ * Serializes a Script to Fountain, including a title page.
+ */
+export const scriptToFountain = (script: Script): string => {
+    const blocks: string[] = [`Title: ${script.title}`];
+    script.scene_elements.forEach(el => {
+        switch (el.type) {
+            case 'scene_heading': blocks.push(formatSceneHeading(el.content)); break;
+            case 'action': blocks.push(formatAction(el.content)); break;
+            case 'transition': blocks.push(formatTransition(el.content)); break;
+            case 'dialogue_block': blocks.push(formatDialogueBlock(el)); break;
+        }
+    });
+    return blocks.join('\n\n') + '\n';
+};
+
+const parseTitlePage = (lines: string[]): { title: string | null; bodyStart: number } => {
+    if (lines.length === 0 || !TITLE_PAGE_KEY_PATTERN.test(lines[0])) {
+        return { title: null, bodyStart: 0 };
+    }
+    let title: string | null = null;
+    let currentKey = '';
+    let i = 0;
+    for (; i < lines.length && lines[i].trim() !== ''; i++) {
+        const line = lines[i];
+        const keyMatch = line.match(TITLE_PAGE_KEY_PATTERN);
+        if (keyMatch) {
+            currentKey = keyMatch[1].toLowerCase();
+            if (currentKey === 'title' && keyMatch[2]) title = keyMatch[2].trim();
+        } else if (currentKey === 'title') {
+            title = [title, line.trim()].filter(Boolean).join(' ');
+        }
+    }
+    return { title, bodyStart: i };
+};
+
+const parseBlock = (block: string[]): SceneElement | null => {
+    const first = block[0].trim();
+
+    if (/^\.[^.]/.test(first)) {
+        return { type: 'scene_heading', content: first.slice(1).trim() };
+    }
+    if (block.length === 1 && SCENE_HEADING_PATTERN.test(first)) {
+        return { type: 'scene_heading', content: first.replace(/\s*#[^#]*#$/, '') };
+    }
+    if (first.startsWith('!')) {
+        return { type: 'action', content: [first.slice(1), ...block.slice(1)].join('\n').trim() };
+    }
+    if (block.length === 1 && first.startsWith('>') && !first.endsWith('<')) {
+        return { type: 'transition', content: first.slice(1).trim() };
+    }
+    if (block.length === 1 && TRANSITION_PATTERN.test(first)) {
+        return { type: 'transition', content: first };
+    }
+    if (block.length > 1 && (first.startsWith('@') || isUpperCase(first.replace(CHARACTER_EXTENSION_PATTERN, '')))) {
+        const character = first.replace(/^@/, '').replace(CHARACTER_EXTENSION_PATTERN, '').trim();
+        const elements: DialogueBlock['elements'] = [];
+        block.slice(1).forEach(raw => {
+            const line = raw.trim();
+            const last = elements[elements.length - 1];
+            if (line.startsWith('(') && line.endsWith(')')) {
+                elements.push({ type: 'parenthetical', content: stripParens(line) });
+            } else if (last && last.type === 'dialogue') {
+                last.content += `\n${line}`;
+            } else {
+                elements.push({ type: 'dialogue', content: line });
+            }
+        });
+        return { type: 'dialogue_block', character, elements };
+    }
+    const content = block.map(l => l.replace(/^>(.*)<$/, '$1').trim()).join('\n').trim();
+    return content ? { type: 'action', content } : null;
+};
+
+/**
+ * Parses a Fountain document into a Script. Boneyard comments, notes, sections,
+ * synopses and page breaks carry no storyboard information and are dropped. Inside
+ * dialogue a line starting with `#` or `=` is spoken text, so it is kept.
+ */
+export const parseFountain = (text: string, sourceFile: string): Script => {
+    const cleaned = text
+        .replace(/\r\n?/g, '\n')
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/\[\[[\s\S]*?\]\]/g, '');
+    const lines = cleaned.split('\n');
+    const { title, bodyStart } = parseTitlePage(lines);
+
+    const sceneElements: SceneElement[] = [];
+    let block: string[] = [];
+    const flush = () => {
+        const start = block.findIndex(l => !NON_PRINTING_LINE_PATTERN.test(l));
+        if (start >= 0) {
+            const rest = block.slice(start);
+            const dialogue = parseBlock(rest);
+            const meaningful = rest.filter(l => !NON_PRINTING_LINE_PATTERN.test(l));
+            const el = dialogue?.type === 'dialogue_block' ? dialogue : parseBlock(meaningful);
+            if (el) sceneElements.push(el);
+        }
+        block = [];
+    };
+    for (const line of lines.slice(bodyStart)) {
+        if (line.trim() === '') flush();
+        else block.push(line);
+    }
+    flush();
+
+    if (sceneElements.length === 0) {
+        throw new Error(`No screenplay elements could be parsed from ${sourceFile}.`);
+    }
+
+    return {
+        source_file: sourceFile,
+        title: title || sourceFile.replace(/\.[^/.]+$/, ''),
+        scene_elements: sceneElements,
+    };
+};
@@ -0,0 +1,79 @@
+
+import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { ModelProvider } from './modelProvider';
+import { TokenUsage } from './costLedger';
+
+const usageOf = (response: GenerateContentResponse, images = 0): TokenUsage | undefined => {
+    const metadata = response.usageMetadata;
+    if (!metadata) return undefined;
+    return {
+        inputTokens: metadata.promptTokenCount ?? 0,
+        // Thinking tokens are billed at the output rate.
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+        images,
+    };
+};
+
+/**
+ * GEMINI MODEL PROVIDER
+ * Sends requests to the Gemini API through the @google/genai SDK.
+ */
+export const createGeminiProvider = (apiKey: string): ModelProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+
+        async generateJson({ model, prompt, schema, signal }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: schema,
+                    abortSignal: signal,
+                },
+            });
+            return { text: response.text, usage: usageOf(response) };
+        },
+
+        async generateImage({ model, parts, aspectRatio, signal }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts },
+                config: {
+                    imageConfig: {
+                        aspectRatio
+                    },
+                    abortSignal: signal,
+                },
+            });
+
+            if (!response.candidates || response.candidates.length === 0) {
+                return { imageBase64: null, blocked: true, usage: usageOf(response) };
+            }
+            const candidate = response.candidates[0];
+            const imagePart = candidate.content?.parts?.find(part => part.inlineData?.data);
+            const blocked = candidate.safetyRatings?.some(rating => rating.blocked) || false;
+            return { imageBase64: imagePart?.inlineData?.data ?? null, blocked, usage: usageOf(response, imagePart ? 1 : 0) };
+        },
+
+        async generateSpeech({ model, text, voiceName, signal }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: [{ parts: [{ text }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName },
+                        },
+                    },
+                    abortSignal: signal,
+                },
+            });
+            const audioPart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data);
+            return { audioBase64: audioPart?.inlineData?.data ?? null, mimeType: audioPart?.inlineData?.mimeType, usage: usageOf(response) };
+        },
+    };
+};
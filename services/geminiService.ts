@@ -1,12 +1,114 @@
 
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-import { Script, StoryElements, AnalyzedCharacter, SceneElement } from '../types';
+import { Type } from "@google/genai";
+import { Script, StoryElements, AnalyzedCharacter, CohesivePrompt, EpisodeSummary } from '../types';
+import { getModelProvider, ContentPart, AspectRatio, JsonRequest } from './modelProvider';
+import { createRequestScheduler, DEFAULT_SCHEDULER_CONFIG } from './requestScheduler';
+import { GenerationSettings, ModelSettings, ModelRole, RequestLimits, DEFAULT_GENERATION_SETTINGS } from './settings';
+import { ServiceLogEntry } from './generationReport';
+import { TokenUsage } from './costLedger';
+import { ValidationResult, validateStoryElements, validateAnalyzedCharacters, validateScript, validateCohesivePrompts, validateHs3000Lines, validateEpisodeSummary } from './validation';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+/**
+ * SERVICE LOG
+ * JSON model calls and notable events inside the service layer (retries, repaired or
+ * re-requested model output) are forwarded to an optional listener so the caller can record
+ * them in the generation report.
+ */
+let serviceLogListener: ((entry: ServiceLogEntry) => void) | null = null;
+
+export const setServiceLogListener = (listener: ((entry: ServiceLogEntry) => void) | null) => {
+    serviceLogListener = listener;
+};
+
+const logServiceWarning = (message: string, details?: string) => {
+    console.warn(details ? `${message}\n${details}` : message);
+    serviceLogListener?.({ kind: 'event', level: 'warning', message, details });
+};
+
+const scheduler = createRequestScheduler(DEFAULT_SCHEDULER_CONFIG, retry => {
+    const reason = retry.reason.length > 200 ? `${retry.reason.slice(0, 200)}...` : retry.reason;
+    logServiceWarning(`[RETRY] ${retry.label} (${retry.model}): retry ${retry.attempt} in ${(retry.delayMs / 1000).toFixed(1)}s`, `Reason: ${reason}`);
+});
+
+let models: ModelSettings = DEFAULT_GENERATION_SETTINGS.models;
+
+const applyRequestLimits = (limits: Record<ModelRole, RequestLimits>) => {
+    const entries = Object.entries(limits) as [ModelRole, RequestLimits][];
+    scheduler.configure({
+        maxConcurrencyPerRole: Object.fromEntries(entries.map(([role, limit]) => [role, limit.maxConcurrency])),
+        timeoutMsPerRole: Object.fromEntries(entries.map(([role, limit]) => [role, limit.timeoutSeconds * 1000])),
+    });
+};
+applyRequestLimits(DEFAULT_GENERATION_SETTINGS.requestLimits);
+
+/**
+ * Selects the model used for each kind of request, and the concurrency and timeout limits for
+ * each role's calls, from now on.
+ */
+export const setModelSettings = (settings: Pick<GenerationSettings, 'models' | 'requestLimits'>) => {
+    models = settings.models;
+    applyRequestLimits(settings.requestLimits);
+};
+
+const MAX_JSON_ATTEMPTS = 2;
+
+/**
+ * Requests JSON from the model and validates it. Repairs made by the validator are logged;
+ * an unusable response is re-requested with the validation errors appended to the prompt.
+ */
+async function generateValidatedJson<T>(jsonRequest: Omit<JsonRequest, 'model'> & { role: ModelRole }, validate: (raw: unknown) => ValidationResult<T>, label: string): Promise<T> {
+    const { role, ...rest } = jsonRequest;
+    const request: JsonRequest = { ...rest, model: models[role] };
+    let prompt = request.prompt;
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+        const startedMs = Date.now();
+        const record = { kind: 'json' as const, label, model: request.model, prompt, startedAt: new Date(startedMs).toISOString() };
+        let resultJson: string | undefined;
+        let usage: TokenUsage | undefined;
+        try {
+            ({ text: resultJson, usage } = await scheduler.run(role, request.model, label, signal => getModelProvider().generateJson({ ...request, prompt, signal }), request.signal));
+        } catch (e) {
+            serviceLogListener?.({ kind: 'call', call: { ...record, durationMs: Date.now() - startedMs, status: 'failed', error: e instanceof Error ? e.message : String(e) } });
+            throw e;
+        }
+        let value: T | null = null;
+
+        if (!resultJson) {
+            issues = ['The model returned an empty response.'];
+        } else {
+            try {
+                ({ value, issues } = validate(JSON.parse(resultJson)));
+            } catch (e) {
+                issues = [`The response is not valid JSON: ${e instanceof Error ? e.message : String(e)}`];
+            }
+        }
+
+        serviceLogListener?.({ kind: 'call', call: {
+            ...record,
+            durationMs: Date.now() - startedMs,
+            usage,
+            status: value !== null ? 'success' : 'failed',
+            ...(value === null ? { error: issues.join(' ') } : {}),
+        } });
+
+        if (value !== null) {
+            if (issues.length > 0) {
+                logServiceWarning(`[VALIDATION] ${label}: response repaired`, issues.map(i => `- ${i}`).join('\n'));
+            }
+            return value;
+        }
+
+        logServiceWarning(`[VALIDATION] ${label}: attempt ${attempt}/${MAX_JSON_ATTEMPTS} unusable`, issues.map(i => `- ${i}`).join('\n'));
+        prompt = `${request.prompt}
+
+    **YOUR PREVIOUS RESPONSE WAS REJECTED** for the following reasons:
+${issues.map(i => `    - ${i}`).join('\n')}
+    Return a corrected JSON object that fixes every problem listed above.`;
+    }
+    throw new Error(`The model returned an unusable ${label} after ${MAX_JSON_ATTEMPTS} attempts. ${issues.join(' ')}`);
 }
-  
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
 const storyAnalysisSchema = {
     type: Type.OBJECT,
@@ -18,7 +120,7 @@ const storyAnalysisSchema = {
     required: ['characters', 'story', 'today']
 };
 
-export async function analyzeStoryInputs(files: {name: string, content: string}[]): Promise<StoryElements> {
+export async function analyzeStoryInputs(files: {name: string, content: string}[], signal?: AbortSignal): Promise<StoryElements> {
     if (files.length === 0) {
         throw new Error("No text or JSON files were provided to analyze for story elements.");
     }
@@ -40,20 +142,13 @@ export async function analyzeStoryInputs(files: {name: string, content: string}[
     Return your analysis as a single JSON object conforming to the provided schema. Do not include any other text or markdown formatting.`;
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: storyAnalysisSchema,
-            },
-        });
-
-        const resultJson = response.text;
-        if (!resultJson) {
-            throw new Error("The model did not return an analysis.");
-        }
-        return JSON.parse(resultJson);
+        return await generateValidatedJson({
+            task: { kind: 'storyAnalysis', files },
+            role: 'analysis',
+            prompt,
+            schema: storyAnalysisSchema,
+            signal,
+        }, validateStoryElements, 'story analysis');
 
     } catch (error) {
         console.error("Error analyzing story inputs:", error);
@@ -88,7 +183,7 @@ const characterAnalysisSchema = {
     required: ['characters']
   };
 
-export async function analyzeCharacterDescriptions(sourceText: string): Promise<AnalyzedCharacter[]> {
+export async function analyzeCharacterDescriptions(sourceText: string, signal?: AbortSignal): Promise<AnalyzedCharacter[]> {
     const prompt = `You are an expert casting director. Your task is to read the following text and identify every character mentioned. Extract their details into a structured JSON format.
 
     Rules:
@@ -107,21 +202,13 @@ export async function analyzeCharacterDescriptions(sourceText: string): Promise<
     Return your analysis as a single JSON object conforming to the provided schema. Do not include any other text or markdown formatting.`;
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: characterAnalysisSchema,
-            },
-        });
-
-        const resultJson = response.text;
-        if (!resultJson) {
-            throw new Error("The model did not return any character analysis.");
-        }
-        const parsed = JSON.parse(resultJson);
-        return parsed.characters || [];
+        return await generateValidatedJson({
+            task: { kind: 'characterAnalysis', sourceText },
+            role: 'analysis',
+            prompt,
+            schema: characterAnalysisSchema,
+            signal,
+        }, validateAnalyzedCharacters, 'character analysis');
 
     } catch (error) {
         console.error("Error analyzing character descriptions:", error);
@@ -136,7 +223,6 @@ export async function analyzeCharacterDescriptions(sourceText: string): Promise<
 const scriptSchema = {
     type: Type.OBJECT,
     properties: {
-        source_file: { type: Type.STRING, description: "The name of the source file, which should be 'gemini-3-pro-preview'." },
         title: { type: Type.STRING, description: "A creative and fitting title for the movie script." },
         scene_elements: {
             type: Type.ARRAY,
@@ -167,25 +253,18 @@ const scriptSchema = {
     required: ['title', 'scene_elements']
 };
 
-export async function generateStory(prompt: string): Promise<Script> {
+export async function generateStory(prompt: string, signal?: AbortSignal): Promise<Script> {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-pro-preview",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: scriptSchema,
-            },
-        });
-
-        const resultJson = response.text;
-        if (!resultJson) {
-            throw new Error("The model did not return a script.");
-        }
-        const script = JSON.parse(resultJson) as Script;
-        if (!script.source_file) {
-            script.source_file = 'gemini-3-pro-preview';
-        }
+        const script = await generateValidatedJson({
+            task: { kind: 'script' },
+            role: 'script',
+            prompt,
+            schema: scriptSchema,
+            signal,
+        }, validateScript, 'script');
+
+        // A generated script records the configured script model as its source.
+        script.source_file = models.script;
         return script;
     } catch (error) {
         console.error("Error generating story:", error);
@@ -225,8 +304,14 @@ const cohesivePromptsSchema = {
 export async function generateCohesiveImagePrompts(
     scenes: { sceneIndex: number; content: string }[],
     characterDescriptions: string,
-    style: string
-): Promise<{ sceneIndex: number; prompt: string; characters: string[] }[]> {
+    style: string,
+    enforceMediumShot = true,
+    signal?: AbortSignal
+): Promise<CohesivePrompt[]> {
+    const shotRule = enforceMediumShot
+        ? 'For every prompt, describe a **medium shot**. This is critical to ensure character faces and upper bodies are clearly visible. Do not use close-ups or wide shots unless absolutely necessary for the narrative.'
+        : 'Choose the framing (close-up, medium or wide shot) that best serves each moment, and keep character faces clearly visible whenever characters appear.';
+
     const prompt = `You are a master storyboard artist. Your job is to convert simple action lines from a script into visually rich, cohesive image generation prompts.
 
     **CRITICAL INSTRUCTION: CHARACTER FIDELITY**
@@ -236,7 +321,7 @@ export async function generateCohesiveImagePrompts(
     1.  **Visual Detail:** Transform each action line into a descriptive paragraph. Mention setting, lighting, mood, character actions, and expressions.
     2.  **Character Consistency:** Faithfully adhere to the character list below. Pay special attention to the mandatory characters.
     3.  **Visual Style:** All prompts must incorporate the following style: "${style || 'cinematic, photorealistic, high detail'}".
-    4.  **Shot Composition:** For every prompt, describe a **medium shot**. This is critical to ensure character faces and upper bodies are clearly visible. Do not use close-ups or wide shots unless absolutely necessary for the narrative.
+    4.  **Shot Composition:** ${shotRule}
     5.  **Identify Characters:** For each prompt you generate, you must also return a list of the character names you included in that prompt.
     6.  **Cohesion:** The prompts should flow visually. Maintain consistent lighting and environments for scenes that occur in the same location.
 
@@ -254,20 +339,13 @@ export async function generateCohesiveImagePrompts(
     Now, generate the prompts based on these action lines. Return ONLY a JSON object that matches the provided schema. Do not include markdown or other text.`;
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-pro-preview",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: cohesivePromptsSchema,
-            },
-        });
-        const resultJson = response.text;
-        if (!resultJson) {
-            throw new Error("The model did not return cohesive prompts.");
-        }
-        const parsed = JSON.parse(resultJson);
-        return parsed.prompts || [];
+        return await generateValidatedJson({
+            task: { kind: 'cohesivePrompts', scenes },
+            role: 'storyboardPrompts',
+            prompt,
+            schema: cohesivePromptsSchema,
+            signal,
+        }, raw => validateCohesivePrompts(raw, scenes.map(s => s.sceneIndex)), 'cohesive image prompts');
     } catch (error) {
         console.error("Error generating cohesive prompts:", error);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -279,21 +357,31 @@ export async function generateCohesiveImagePrompts(
 }
 
 
+/**
+ * Prefixes a panel prompt with the visual style; used by generateImage and to recover the
+ * panel prompt from a stored final prompt.
+ */
+export const applyImageStyle = (prompt: string, style?: string) => `Style: ${style || 'cinematic, photorealistic'}. ${prompt}`;
+
 export async function generateImage(
     prompt: string,
-    characterImages?: { name: string, base64: string, mimeType: string }[],
+    characterImages?: { name: string, base64: string, mimeType: string, tags?: string[] }[],
     previousImageBase64?: string,
     style?: string,
-    aspectRatio?: '1:1' | '16:9' | '9:16' | '4:3' | '3:4'
-): Promise<{ imageBase64: string | null; finalPrompt: string, wasRewritten: boolean }> {
+    aspectRatio?: AspectRatio,
+    locationImage?: { name: string, base64: string, mimeType: string },
+    signal?: AbortSignal
+): Promise<{ imageBase64: string | null; finalPrompt: string, wasRewritten: boolean, usage?: TokenUsage }> {
 
-    const finalPrompt = `Style: ${style || 'cinematic, photorealistic'}. ${prompt}`;
+    const finalPrompt = applyImageStyle(prompt, style);
     
-    const parts: any[] = [{ text: finalPrompt }];
+    const parts: ContentPart[] = [{ text: finalPrompt }];
 
     if (characterImages && characterImages.length > 0) {
-        parts.push({ text: `\n\n[INSTRUCTIONS] Use the following provided images as a strong visual reference for the characters named: ${characterImages.map(c => c.name).join(', ')}. Maintain their appearance.` });
+        parts.push({ text: `\n\n[INSTRUCTIONS] Use the following provided images as a strong visual reference for the characters named: ${[...new Set(characterImages.map(c => c.name))].join(', ')}. Maintain their appearance.` });
+        // A character can have several references (angles, expressions, outfits), so each is labelled.
         characterImages.forEach(img => {
+            parts.push({ text: `Reference for ${img.name}${img.tags && img.tags.length > 0 ? ` (${img.tags.join(', ')})` : ''}:` });
             parts.push({
                 inlineData: {
                     data: img.base64,
@@ -303,6 +391,16 @@ export async function generateImage(
         });
     }
 
+    if (locationImage) {
+        parts.push({ text: `\n\n[INSTRUCTIONS] Use the following image as the environment reference for the location "${locationImage.name}". Match its layout, architecture, props, colours and lighting; do not copy any people from it.` });
+        parts.push({
+            inlineData: {
+                data: locationImage.base64,
+                mimeType: locationImage.mimeType,
+            },
+        });
+    }
+
     if (previousImageBase64) {
         parts.push({ text: `\n\n[INSTRUCTIONS] Use the following image as a reference for visual continuity from the previous scene.` });
         parts.push({
@@ -314,32 +412,15 @@ export async function generateImage(
     }
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: {
-                imageConfig: {
-                    aspectRatio: aspectRatio || "1:1"
-                },
-            },
-        });
-
-        let imageBase64: string | null = null;
-        if (response.candidates && response.candidates.length > 0) {
-            const candidate = response.candidates[0];
-            for (const part of candidate.content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    imageBase64 = part.inlineData.data;
-                    break; 
-                }
-            }
+        const model = models.image;
+        const { imageBase64, blocked, usage } = await scheduler.run('image', model, 'image', timeoutSignal => getModelProvider().generateImage({
+            model,
+            parts,
+            aspectRatio: aspectRatio || "1:1",
+            signal: timeoutSignal,
+        }), signal);
 
-            const wasRewritten = candidate.safetyRatings?.some(rating => rating.blocked) || false;
-
-            return { imageBase64, finalPrompt, wasRewritten };
-        }
-        
-        return { imageBase64: null, finalPrompt, wasRewritten: true };
+        return { imageBase64, finalPrompt, wasRewritten: blocked, usage };
 
     } catch (error) {
         console.error("Error generating image:", error);
@@ -378,7 +459,8 @@ const hs3000DialogueSchema = {
 };
 
 export async function generateHS3000Dialogue(
-    inputs: { character: string, originalDialogue: string, isDuplicate: boolean }[]
+    inputs: { character: string, originalDialogue: string, isDuplicate: boolean }[],
+    signal?: AbortSignal
 ): Promise<{ character: string, dialogue: string }[]> {
     const prompt = `You are a meta-fictional writer for an AI-generated storyboard project. Your task is to process a list of dialogue requests for storyboard panels.
 
@@ -396,19 +478,16 @@ export async function generateHS3000Dialogue(
     Return the result as a JSON object matching the provided schema. Return ONLY the JSON.`;
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-flash-preview",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: hs3000DialogueSchema,
-            },
-        });
-        const resultJson = response.text;
-        if (!resultJson) throw new Error("No dialogue returned.");
-        const parsed = JSON.parse(resultJson);
-        return parsed.lines || [];
+        return await generateValidatedJson({
+            task: { kind: 'hs3000Dialogue', inputs },
+            role: 'dialogue',
+            prompt,
+            schema: hs3000DialogueSchema,
+            signal,
+        }, raw => validateHs3000Lines(raw, inputs.length), 'HS3000 dialogue');
     } catch (error) {
+        // A cancelled run must not save fallback lines, or resuming it would skip this stage.
+        if (signal?.aborted) throw error;
         console.error("Error generating HS3000 dialogue:", error);
         // Fallback: just return the first sentence of whatever we have
         return inputs.map(i => ({ 
@@ -417,3 +496,183 @@ export async function generateHS3000Dialogue(
         }));
     }
 }
+
+/**
+ * EPISODE SUMMARY SERVICE
+ * Summarizes a finished episode for the series log, so later scripts can keep continuity.
+ */
+const episodeSummarySchema = {
+    type: Type.OBJECT,
+    properties: {
+        synopsis: { type: Type.STRING, description: "A 2-4 sentence synopsis of the episode's plot and how it ends." },
+        runningGags: {
+            type: Type.ARRAY,
+            description: "Recurring jokes, catchphrases or situations worth calling back to in later episodes.",
+            items: { type: Type.STRING }
+        }
+    },
+    required: ['synopsis', 'runningGags']
+};
+
+export async function summarizeEpisode(script: Script, knownRunningGags: string[], signal?: AbortSignal): Promise<EpisodeSummary> {
+    const prompt = `You are the script coordinator for a sci-fi comedy series. Summarize the following episode for the series bible.
+
+    Rules:
+    - The synopsis is 2-4 sentences: the central conflict, who drove it, and how it resolved.
+    - List the episode's running gags: recurring jokes, catchphrases or situations that later episodes could call back to.
+    - If a gag continues one of the known running gags below, reuse its exact wording instead of inventing a new name for it.
+
+    **Known Running Gags:**
+    ---
+    ${knownRunningGags.length > 0 ? knownRunningGags.join('\n') : 'None yet.'}
+    ---
+
+    **Episode Script ("${script.title}"):**
+    ---
+    ${JSON.stringify(script.scene_elements)}
+    ---
+
+    Return ONLY a JSON object that matches the provided schema. Do not include markdown or other text.`;
+
+    try {
+        return await generateValidatedJson({
+            task: { kind: 'episodeSummary', script },
+            role: 'analysis',
+            prompt,
+            schema: episodeSummarySchema,
+            signal,
+        }, validateEpisodeSummary, 'episode summary');
+    } catch (error) {
+        console.error("Error summarizing episode:", error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('PERMISSION_DENIED') || errorMessage.includes('API key not valid')) {
+            throw new Error("Authentication failed. Please ensure your API key is correct and has the necessary permissions. The server returned a PERMISSION_DENIED error.");
+        }
+        throw new Error(`Failed to summarize the episode. Details: ${errorMessage}`);
+    }
+}
+
+/**
+ * DIALOGUE TEXT-TO-SPEECH SERVICE
+ * Casts a prebuilt Gemini voice for every speaking character and renders each
+ * dialogue block to a WAV blob that can be bundled or played back directly.
+ */
+type PrebuiltVoice = { name: string; gender: 'male' | 'female'; style: string };
+
+const PREBUILT_VOICES: PrebuiltVoice[] = [
+    { name: 'Kore', gender: 'female', style: 'firm' },
+    { name: 'Aoede', gender: 'female', style: 'breezy' },
+    { name: 'Leda', gender: 'female', style: 'youthful' },
+    { name: 'Zephyr', gender: 'female', style: 'bright' },
+    { name: 'Despina', gender: 'female', style: 'smooth' },
+    { name: 'Erinome', gender: 'female', style: 'clear' },
+    { name: 'Laomedeia', gender: 'female', style: 'upbeat' },
+    { name: 'Achernar', gender: 'female', style: 'soft' },
+    { name: 'Gacrux', gender: 'female', style: 'mature' },
+    { name: 'Vindemiatrix', gender: 'female', style: 'gentle' },
+    { name: 'Sulafat', gender: 'female', style: 'warm' },
+    { name: 'Puck', gender: 'male', style: 'upbeat' },
+    { name: 'Charon', gender: 'male', style: 'informative' },
+    { name: 'Fenrir', gender: 'male', style: 'excitable' },
+    { name: 'Orus', gender: 'male', style: 'firm' },
+    { name: 'Enceladus', gender: 'male', style: 'breathy' },
+    { name: 'Iapetus', gender: 'male', style: 'clear' },
+    { name: 'Umbriel', gender: 'male', style: 'easy-going' },
+    { name: 'Algieba', gender: 'male', style: 'smooth' },
+    { name: 'Algenib', gender: 'male', style: 'gravelly' },
+    { name: 'Schedar', gender: 'male', style: 'even' },
+    { name: 'Achird', gender: 'male', style: 'friendly' },
+    { name: 'Sadachbia', gender: 'male', style: 'lively' },
+];
+
+/**
+ * Assigns a distinct, stable voice to every speaking character.
+ * Gender picks the voice pool; words in `voiceDescription` that match a voice's
+ * style (e.g. "gravelly", "warm") are preferred. Voices are only reused once a pool is exhausted.
+ */
+export function assignCharacterVoices(
+    speakingCharacters: string[],
+    analyzedCharacters: AnalyzedCharacter[]
+): Record<string, { voiceName: string; voiceDescription?: string }> {
+    const assignments: Record<string, { voiceName: string; voiceDescription?: string }> = {};
+    const usedVoices = new Set<string>();
+
+    for (const speaker of speakingCharacters) {
+        const key = speaker.toUpperCase().trim();
+        if (assignments[key]) continue;
+
+        const analyzed = analyzedCharacters.find(c => c.name.toUpperCase().trim() === key);
+        const gender = analyzed?.gender ?? 'unknown';
+        const pool = gender === 'unknown' ? PREBUILT_VOICES : PREBUILT_VOICES.filter(v => v.gender === gender);
+        const available = pool.filter(v => !usedVoices.has(v.name));
+        const candidates = available.length > 0 ? available : pool;
+        const description = (analyzed?.voiceDescription || '').toLowerCase();
+
+        const styled = candidates.find(v => description.includes(v.style));
+        const voice = styled || candidates[usedVoices.size % candidates.length];
+
+        usedVoices.add(voice.name);
+        assignments[key] = { voiceName: voice.name, voiceDescription: analyzed?.voiceDescription };
+    }
+    return assignments;
+}
+
+/**
+ * Wraps raw 16-bit little-endian mono PCM (as returned by the TTS model) in a WAV container.
+ */
+const pcmBase64ToWavBlob = (pcmBase64: string, sampleRate: number): Blob => {
+    const pcm = Uint8Array.from(atob(pcmBase64), c => c.charCodeAt(0));
+    const header = new ArrayBuffer(44);
+    const view = new DataView(header);
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + pcm.length, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, pcm.length, true);
+    return new Blob([header, pcm], { type: 'audio/wav' });
+};
+
+export async function generateSpeech(
+    text: string,
+    voiceName: string,
+    direction?: string,
+    signal?: AbortSignal
+): Promise<{ audioBlob: Blob | null; finalPrompt: string; usage?: TokenUsage }> {
+    const finalPrompt = direction ? `Say (${direction}): ${text}` : text;
+
+    try {
+        const model = models.speech;
+        const { audioBase64, mimeType, usage } = await scheduler.run('speech', model, 'speech', timeoutSignal => getModelProvider().generateSpeech({
+            model,
+            text: finalPrompt,
+            voiceName,
+            signal: timeoutSignal,
+        }), signal);
+
+        if (!audioBase64) {
+            return { audioBlob: null, finalPrompt, usage };
+        }
+        const rateMatch = mimeType?.match(/rate=(\d+)/);
+        const sampleRate = rateMatch ? parseInt(rateMatch[1], 10) : 24000;
+        return { audioBlob: pcmBase64ToWavBlob(audioBase64, sampleRate), finalPrompt, usage };
+
+    } catch (error) {
+        console.error("Error generating speech:", error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('PERMISSION_DENIED') || errorMessage.includes('API key not valid')) {
+            throw new Error("Authentication failed. Please ensure your API key is correct and has the necessary permissions. The server returned a PERMISSION_DENIED error.");
+        }
+        throw new Error(`Failed to generate speech. Details: ${errorMessage}`);
+    }
+}
@@ -0,0 +1,273 @@
+import { GenerationSettings, describeGenerationSettings } from './settings';
+import { TokenUsage, CostSummary, summarizeCosts, normalizePriceTable, describeCostSummary, describeUsage } from './costLedger';
+import { CharacterMapping, describeCharacterMapping } from './aliasRegistry';
+
+/**
+ * GENERATION REPORT
+ * A typed record of a run: one entry per pipeline stage with its timing, the model calls it
+ * made (prompt, model, duration, outcome, token usage, character matches, safety flags) and
+ * notable events, plus a cost summary priced with the run's price table and the character
+ * to reference image mapping confirmed before the scene images.
+ * Written to the zip as generation_report.json, with a plain-text rendering next to it.
+ */
+
+export type ReportStageId =
+    | 'setup' | 'resume' | 'storyAnalysis' | 'script' | 'scriptReview' | 'characterAnalysis' | 'characterMapping'
+    | 'portraits' | 'storyboardPrompts' | 'images' | 'hs3000' | 'audio' | 'seriesLog' | 'panelEdit' | 'legacy';
+
+export const STAGE_TITLES: Record<ReportStageId, string> = {
+    setup: 'Inputs',
+    resume: 'Resumed From Checkpoint',
+    storyAnalysis: 'Story Analysis',
+    script: 'Script',
+    scriptReview: 'Script Review',
+    characterAnalysis: 'Character Analysis',
+    characterMapping: 'Character Mapping',
+    portraits: 'Character Portraits',
+    storyboardPrompts: 'Storyboard Prompts',
+    images: 'Scene Images',
+    hs3000: 'HS3000 Dialogue',
+    audio: 'Dialogue Voice Tracks',
+    seriesLog: 'Series Log',
+    panelEdit: 'Panel Regeneration',
+    legacy: 'Earlier Report',
+};
+
+export type StageStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+export type RunStatus = 'running' | 'awaitingReview' | 'completed' | 'failed' | 'cancelled';
+export type EventLevel = 'info' | 'warning' | 'error';
+
+export interface ReportEvent {
+    at: string;
+    level: EventLevel;
+    message: string;
+    /** Longer supporting text such as a JSON result; rendered indented under the message. */
+    details?: string;
+}
+
+export interface CharacterMatch {
+    /** The character name as it appeared in the storyboard prompt. */
+    requested: string;
+    /**
+     * The script character the name resolved to through the alias registry; absent on
+     * reports written before the registry existed, which matched names to references directly.
+     */
+    character?: string | null;
+    /** The reference image used (or, for older reports, the closest one), or null when there was none. */
+    reference: string | null;
+    /** Edit distance, when the name was only resolved by spelling similarity. */
+    distance: number | null;
+    /** Distance divided by the longer name's length; compared against the match threshold. */
+    normalizedDistance: number | null;
+    accepted: boolean;
+}
+
+export interface ModelCallRecord {
+    kind: 'json' | 'image' | 'speech';
+    label: string;
+    model: string;
+    startedAt: string;
+    durationMs: number;
+    status: 'success' | 'failed';
+    prompt?: string;
+    sceneIndex?: number;
+    /** True when the model blocked or rewrote the output for safety reasons. */
+    safetyFlagged?: boolean;
+    characterMatches?: CharacterMatch[];
+    continuityImageUsed?: boolean;
+    error?: string;
+    /** Call-specific facts that have no dedicated field, e.g. the voice used for a line. */
+    details?: Record<string, string>;
+    /** Absent when the provider reported no usage. */
+    usage?: TokenUsage;
+}
+
+export interface ReportStage {
+    id: ReportStageId;
+    title: string;
+    startedAt: string;
+    finishedAt?: string;
+    durationMs?: number;
+    status: StageStatus;
+    events: ReportEvent[];
+    calls: ModelCallRecord[];
+}
+
+export interface GenerationReport {
+    version: 1;
+    createdAt: string;
+    updatedAt: string;
+    status: RunStatus;
+    settings?: GenerationSettings;
+    /** The model provider the run used; 'mock' runs hold placeholder output and simulated costs. */
+    provider?: string;
+    stages: ReportStage[];
+    /** Refreshed whenever a stage finishes. */
+    costs?: CostSummary;
+    /** The confirmed character to reference image mapping used for the scene images. */
+    characterMapping?: CharacterMapping[];
+}
+
+export const createGenerationReport = (settings?: GenerationSettings, provider?: string): GenerationReport => {
+    const now = new Date().toISOString();
+    return { version: 1, createdAt: now, updatedAt: now, status: 'running', settings, provider, stages: [] };
+};
+
+/**
+ * Wraps the plain-text report of an older run (from a checkpoint or zip saved before the
+ * structured report existed) so it can be shown and extended like any other report.
+ */
+export const legacyGenerationReport = (text: string): GenerationReport => {
+    const report = createGenerationReport();
+    report.status = 'completed';
+    report.stages.push({
+        id: 'legacy', title: STAGE_TITLES.legacy, startedAt: report.createdAt, finishedAt: report.createdAt,
+        status: 'completed', calls: [], events: text.trim() ? [{ at: report.createdAt, level: 'info', message: 'Plain-text report from an earlier version.', details: text.trim() }] : [],
+    });
+    return report;
+};
+
+export const isGenerationReport = (value: unknown): value is GenerationReport =>
+    typeof value === 'object' && value !== null && (value as GenerationReport).version === 1 && Array.isArray((value as GenerationReport).stages);
+
+/** An entry forwarded from the service layer: a notable event, or a model call it made. */
+export type ServiceLogEntry =
+    | { kind: 'event'; level: EventLevel; message: string; details?: string }
+    | { kind: 'call'; call: ModelCallRecord };
+
+/**
+ * Appends to `report` in place. Events and calls go to the most recently begun stage;
+ * beginning a stage completes the previous one.
+ */
+export const createReportRecorder = (report: GenerationReport) => {
+    let stage: ReportStage | null = null;
+
+    const touch = () => { report.updatedAt = new Date().toISOString(); };
+    const prices = normalizePriceTable(report.settings?.prices);
+
+    const finishStage = (status: StageStatus = 'completed') => {
+        if (!stage) return;
+        const finishedAt = new Date();
+        stage.finishedAt = finishedAt.toISOString();
+        stage.durationMs = finishedAt.getTime() - new Date(stage.startedAt).getTime();
+        stage.status = status;
+        stage = null;
+        report.costs = summarizeCosts(report.stages.flatMap(s => s.calls), prices);
+        touch();
+    };
+
+    const beginStage = (id: ReportStageId, title = STAGE_TITLES[id]) => {
+        finishStage();
+        stage = { id, title, startedAt: new Date().toISOString(), status: 'running', events: [], calls: [] };
+        report.stages.push(stage);
+        touch();
+    };
+
+    const currentStage = (): ReportStage => {
+        if (!stage) beginStage('setup');
+        return stage!;
+    };
+
+    const event = (level: EventLevel, message: string, details?: string) => {
+        currentStage().events.push({ at: new Date().toISOString(), level, message, ...(details ? { details } : {}) });
+        touch();
+    };
+
+    return {
+        report,
+        beginStage,
+        finishStage,
+        info: (message: string, details?: string) => event('info', message, details),
+        warn: (message: string, details?: string) => event('warning', message, details),
+        error: (message: string, details?: string) => event('error', message, details),
+
+        /** Records a call that started at `startedMs` (a Date.now() value) and has just ended. */
+        call(call: Omit<ModelCallRecord, 'startedAt' | 'durationMs'>, startedMs: number) {
+            currentStage().calls.push({ ...call, startedAt: new Date(startedMs).toISOString(), durationMs: Date.now() - startedMs });
+            touch();
+        },
+
+        log(entry: ServiceLogEntry) {
+            if (entry.kind === 'call') {
+                currentStage().calls.push(entry.call);
+                touch();
+            } else {
+                event(entry.level, entry.message, entry.details);
+            }
+        },
+
+        /** Closes the current stage to match the run outcome and sets the run status. */
+        finish(status: RunStatus) {
+            finishStage(status === 'failed' || status === 'cancelled' ? status : 'completed');
+            report.status = status;
+        },
+
+        snapshot: (): GenerationReport => structuredClone(report),
+    };
+};
+
+export type ReportRecorder = ReturnType<typeof createReportRecorder>;
+
+export const formatDuration = (ms?: number) => ms === undefined ? '' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const describeCharacterMatch = (match: CharacterMatch) => {
+    if (match.character === undefined) {
+        return match.reference === null
+            ? `${match.requested} -> no references available`
+            : `${match.requested} -> ${match.reference} (dist: ${match.distance}, normalized: ${match.normalizedDistance?.toFixed(2)}, ${match.accepted ? 'used' : 'rejected'})`;
+    }
+    const fuzzy = match.normalizedDistance !== null ? `, by spelling: ${match.normalizedDistance.toFixed(2)}` : '';
+    if (match.character === null) return `${match.requested} -> not a known character${fuzzy}`;
+    const via = match.character === match.requested ? '' : ` as ${match.character}`;
+    return `${match.requested}${via} -> ${match.reference ?? 'no reference image'}${fuzzy}`;
+};
+
+const indent = (text: string, prefix = '    ') => text.split('\n').map(line => `${prefix}${line}`).join('\n');
+
+const renderCall = (call: ModelCallRecord): string => {
+    const lines = [`[${call.label}] ${call.model} | ${formatDuration(call.durationMs)} | ${call.status === 'success' ? 'Success' : 'Failed'}`];
+    if (call.sceneIndex !== undefined) lines.push(`  - Scene Index: ${call.sceneIndex}`);
+    for (const [key, value] of Object.entries(call.details ?? {})) lines.push(`  - ${key}: ${value}`);
+    if (call.characterMatches) {
+        lines.push(`  - Character Matches:${call.characterMatches.length > 0 ? '' : ' None'}`);
+        lines.push(...call.characterMatches.map(m => `      ${describeCharacterMatch(m)}`));
+    }
+    if (call.continuityImageUsed !== undefined) lines.push(`  - Previous Scene Used for Continuity: ${call.continuityImageUsed ? 'Yes' : 'No'}`);
+    if (call.safetyFlagged !== undefined) lines.push(`  - Flagged For Safety: ${call.safetyFlagged ? 'Yes' : 'No'}`);
+    if (call.usage) lines.push(`  - Usage: ${describeUsage(call.usage)}`);
+    if (call.error) lines.push(`  - Error: ${call.error}`);
+    if (call.prompt) lines.push('  - Prompt Sent:', indent(call.prompt));
+    return lines.join('\n');
+};
+
+/**
+ * Renders the report as plain text for generation_report.txt.
+ */
+export const renderReportText = (report: GenerationReport): string => {
+    // A legacy report's text already starts with its own header.
+    const sections = report.stages[0]?.id === 'legacy' ? [] : [
+        '--- BOT THOTLE GENERATION REPORT ---',
+        `Generation Date: ${report.createdAt}\nStatus: ${report.status}`,
+    ];
+    if (report.provider) sections.push(`Model Provider: ${report.provider}${report.provider === 'mock' ? ' (placeholder output; costs are simulated)' : ''}`);
+    if (report.settings) sections.push(`--- GENERATION SETTINGS ---\n${describeGenerationSettings(report.settings)}`);
+
+    for (const stage of report.stages) {
+        if (stage.id === 'legacy') {
+            sections.push(...stage.events.map(e => e.details ?? e.message));
+            continue;
+        }
+        const header = `--- ${stage.title.toUpperCase()} --- (${stage.status}${stage.durationMs !== undefined ? `, ${formatDuration(stage.durationMs)}` : ''})`;
+        const body = [
+            ...stage.events.map(e => {
+                const prefix = e.level === 'info' ? '' : `${e.level.toUpperCase()}: `;
+                return e.details ? `${prefix}${e.message}\n${indent(e.details)}` : `${prefix}${e.message}`;
+            }),
+            ...stage.calls.map(renderCall),
+        ];
+        sections.push([header, ...body].join('\n\n'));
+    }
+    if (report.characterMapping) sections.push(`--- CHARACTER MAPPING ---\n${report.characterMapping.map(describeCharacterMapping).join('\n')}`);
+    if (report.costs) sections.push(`--- COST SUMMARY ---\n${describeCostSummary(report.costs)}`);
+    return sections.join('\n\n') + '\n';
+};
@@ -0,0 +1,218 @@
+import { Script, DialogueBlock, Hs3000Line } from '../types';
+import { buildSceneGraph, sceneForElement } from './sceneGraph';
+
+/**
+ * HS3000 FORMAT
+ * HS3000 files hold one dialogue line per storyboard panel. Three variants are written:
+ *
+ * TEXT (`0hs3000_<title>_<time>.txt`), version 2:
+ *     # HS3000 v2
+ *     [0012] ALICE "We should not be here."
+ *   The bracketed number is the panel's scene index. Lines starting with `#` are comments.
+ *   Version 1 files (no header, `ALICE "line"` only) are still read; their lines carry no
+ *   scene index and are attached to the panels that have dialogue, in order, which is how
+ *   they were generated.
+ *
+ * JSON (`.json`): `{ "format": "hs3000", "version": 2, "lines": [{ "sceneIndex", "character", "dialogue" }] }`
+ *
+ * CSV (`.csv`): a `scene_index,character,dialogue` header, then one RFC 4180 row per line.
+ */
+
+export type Hs3000Format = 'text' | 'json' | 'csv';
+
+export const HS3000_VERSION = 2;
+
+/** A parsed line; `sceneIndex` is absent for lines from a version 1 text file. */
+export type ParsedHs3000Line = Omit<Hs3000Line, 'sceneIndex'> & { sceneIndex?: number };
+
+export interface Hs3000ParseResult {
+    lines: ParsedHs3000Line[];
+    issues: string[];
+}
+
+/**
+ * HS3000 DIALOGUE EXTRACTION
+ * Finds the nearest dialogue block associated with a given scene index: the first spoken
+ * line after it in the same scene, or failing that the last one before it.
+ */
+export const getDialogueForScene = (sceneIndex: number, script: Script) => {
+    const scene = sceneForElement(buildSceneGraph(script), sceneIndex);
+    if (!scene) return null;
+    const spokenAt = (j: number) => {
+        const el = script.scene_elements[j];
+        if (el.type !== 'dialogue_block') return null;
+        const dBlock = el as DialogueBlock;
+        const spoken = dBlock.elements.find(e => e.type === 'dialogue')?.content;
+        return spoken ? { character: dBlock.character.toUpperCase(), dialogue: spoken, elementIndex: j } : null;
+    };
+    for (let j = sceneIndex + 1; j < scene.end; j++) {
+        const found = spokenAt(j);
+        if (found) return found;
+    }
+    for (let j = sceneIndex - 1; j >= scene.start; j--) {
+        const found = spokenAt(j);
+        if (found) return found;
+    }
+    return null;
+};
+
+/** The panels that get an HS3000 line when generating: every image with nearby dialogue, in scene order. */
+export const hs3000Panels = (images: { sceneIndex: number }[], script: Script): number[] =>
+    images
+        .map(img => img.sceneIndex)
+        .sort((a, b) => a - b)
+        .filter(sceneIndex => getDialogueForScene(sceneIndex, script) !== null);
+
+/** Picks the variant from a file's extension, for files the user has chosen as HS3000 files. */
+export const hs3000FormatFromExtension = (fileName: string): Hs3000Format | null => {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'txt') return 'text';
+    return extension === 'json' || extension === 'csv' ? extension : null;
+};
+
+/** Detects the variant of a file named like the zip's `0hs3000_*` files, or returns null for any other file. */
+export const hs3000FormatFromFileName = (fileName: string): Hs3000Format | null =>
+    /^0hs3000_/i.test(fileName.split('/').pop()!) ? hs3000FormatFromExtension(fileName) : null;
+
+/** Keeps a line on one row of the text format. */
+const singleLine = (value: string) => value.replace(/\s*\r?\n\s*/g, ' ').trim();
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Writes the lines in scene order, leaving out lines still missing a character or dialogue. */
+export const serializeHs3000 = (lines: Hs3000Line[], format: Hs3000Format): string => {
+    const sorted = lines.filter(l => l.character.trim() && l.dialogue.trim()).sort((a, b) => a.sceneIndex - b.sceneIndex);
+    switch (format) {
+        case 'json':
+            return JSON.stringify({ format: 'hs3000', version: HS3000_VERSION, lines: sorted }, null, 2);
+        case 'csv':
+            return ['scene_index,character,dialogue', ...sorted.map(l => [String(l.sceneIndex), l.character, l.dialogue].map(csvField).join(','))].join('\n');
+        case 'text':
+            return [`# HS3000 v${HS3000_VERSION}`, ...sorted.map(l => `[${String(l.sceneIndex).padStart(4, '0')}] ${singleLine(l.character)} "${singleLine(l.dialogue)}"`)].join('\n');
+    }
+};
+
+/** Splits CSV into rows of fields, honouring quoted fields with escaped quotes and line breaks. */
+const parseCsvRows = (content: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        const ch = content[i];
+        if (quoted) {
+            if (ch === '"' && content[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length > 0) rows.push([...row, field]);
+    return rows.filter(r => r.some(f => f.trim()));
+};
+
+const parseSceneIndex = (raw: unknown): number | undefined | null => {
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+    return Number.isInteger(value) && value >= 0 ? value : null;
+};
+
+/** Adds a line when it has a character and dialogue, otherwise records why it was skipped. */
+const collect = (result: Hs3000ParseResult, where: string, sceneIndexRaw: unknown, character: unknown, dialogue: unknown) => {
+    const sceneIndex = parseSceneIndex(sceneIndexRaw);
+    const name = typeof character === 'string' ? character.trim() : '';
+    const text = typeof dialogue === 'string' ? dialogue.trim() : '';
+    if (sceneIndex === null) result.issues.push(`${where} has an invalid scene index "${String(sceneIndexRaw)}"; skipped.`);
+    else if (!name || !text) result.issues.push(`${where} is missing a character or dialogue; skipped.`);
+    else result.lines.push(sceneIndex === undefined ? { character: name, dialogue: text } : { sceneIndex, character: name, dialogue: text });
+};
+
+export const parseHs3000 = (content: string, format: Hs3000Format): Hs3000ParseResult => {
+    const result: Hs3000ParseResult = { lines: [], issues: [] };
+
+    if (format === 'json') {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(content);
+        } catch (e) {
+            return { lines: [], issues: [`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+        }
+        const items = Array.isArray(raw) ? raw : (typeof raw === 'object' && raw !== null ? (raw as { lines?: unknown }).lines : undefined);
+        if (!Array.isArray(items)) return { lines: [], issues: ['No "lines" array found.'] };
+        const version = (raw as { version?: unknown }).version;
+        if (typeof version === 'number' && version > HS3000_VERSION) result.issues.push(`Written by a newer HS3000 version (${version}); reading it as version ${HS3000_VERSION}.`);
+        items.forEach((item, i) => {
+            const line = typeof item === 'object' && item !== null ? item as Record<string, unknown> : {};
+            collect(result, `Line #${i + 1}`, line.sceneIndex, line.character, line.dialogue);
+        });
+        return result;
+    }
+
+    if (format === 'csv') {
+        const [header, ...rows] = parseCsvRows(content);
+        const columns = (header ?? []).map(h => h.trim().toLowerCase());
+        const at = (name: string) => columns.indexOf(name);
+        if (at('character') < 0 || at('dialogue') < 0) return { lines: [], issues: ['The CSV header must name "character" and "dialogue" columns.'] };
+        rows.forEach((row, i) => {
+            collect(result, `Row ${i + 2}`, at('scene_index') >= 0 ? row[at('scene_index')] : undefined, row[at('character')], row[at('dialogue')]);
+        });
+        return result;
+    }
+
+    content.split(/\r?\n/).forEach((line, i) => {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+        const header = trimmed.match(/^#\s*HS3000 v(\d+)/i);
+        if (header && Number(header[1]) > HS3000_VERSION) result.issues.push(`Written by a newer HS3000 version (${header[1]}); reading it as version ${HS3000_VERSION}.`);
+        if (trimmed.startsWith('#')) return;
+        const match = trimmed.match(/^(?:\[(\d+)\]\s*)?(.*?) "(.*)"$/);
+        if (!match) {
+            result.issues.push(`Line ${i + 1} is not in the form CHARACTER "dialogue"; skipped.`);
+            return;
+        }
+        collect(result, `Line ${i + 1}`, match[1], match[2], match[3]);
+    });
+    return result;
+};
+
+/**
+ * Re-attaches parsed lines to the storyboard's panels. Lines with a scene index must name an
+ * existing panel; lines without one (version 1 text) fill the panels with dialogue in order.
+ * A panel keeps the last line given for it.
+ */
+export const attachHs3000Lines = (parsed: ParsedHs3000Line[], images: { sceneIndex: number }[], script: Script): { lines: Hs3000Line[]; issues: string[] } => {
+    const issues: string[] = [];
+    const panels = new Set(images.map(img => img.sceneIndex));
+    const positional = hs3000Panels(images, script);
+    const attached = new Map<number, Hs3000Line>();
+    let nextPositional = 0;
+
+    for (const line of parsed) {
+        let sceneIndex = line.sceneIndex;
+        if (sceneIndex === undefined) {
+            sceneIndex = positional[nextPositional++];
+            if (sceneIndex === undefined) {
+                issues.push(`More lines than panels with dialogue; "${line.character}: ${line.dialogue}" was not attached.`);
+                continue;
+            }
+        } else if (!panels.has(sceneIndex)) {
+            issues.push(`No panel has scene index ${sceneIndex}; "${line.character}: ${line.dialogue}" was not attached.`);
+            continue;
+        }
+        if (attached.has(sceneIndex)) issues.push(`Panel ${sceneIndex} has more than one line; the last one was kept.`);
+        attached.set(sceneIndex, { sceneIndex, character: line.character, dialogue: line.dialogue });
+    }
+    return { lines: [...attached.values()].sort((a, b) => a.sceneIndex - b.sceneIndex), issues };
+};
@@ -0,0 +1,33 @@
+/**
+ * LOCATION REFERENCES
+ * Set images uploaded in a `locations/` folder of the input zip, kept apart from character
+ * references. Each is keyed by its file name (`ship_bridge.png` -> "ship bridge") and matched
+ * against the slugline location of a panel's scene, so a recurring set gets the same
+ * environment reference in every panel and every episode that uploads it.
+ */
+
+const LOCATION_FOLDER_PATTERN = /(^|\/)locations\//i;
+
+/** True for zip entries inside a `locations/` folder, at any depth. */
+export const isLocationReferencePath = (path: string) => LOCATION_FOLDER_PATTERN.test(path);
+
+export const locationKeyFromFileName = (fileName: string) =>
+    fileName.split('/').pop()!.replace(/\.[^/.]+$/, '').replace(/[_\-\s]+/g, ' ').trim().toLowerCase();
+
+const tokensOf = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Picks the reference for a slugline location: one whose name's words all appear in the
+ * location ("bridge" matches "SHIP - BRIDGE"). When several do, the most specific (most
+ * words) wins, so "ship bridge" beats "bridge". Returns null when nothing matches.
+ */
+export const matchLocationReference = (location: string, referenceKeys: string[]): string | null => {
+    const locationTokens = new Set(tokensOf(location));
+    let best: { key: string; size: number } | null = null;
+    for (const key of referenceKeys) {
+        const keyTokens = tokensOf(key);
+        if (keyTokens.length === 0 || !keyTokens.every(token => locationTokens.has(token))) continue;
+        if (!best || keyTokens.length > best.size) best = { key, size: keyTokens.length };
+    }
+    return best?.key ?? null;
+};
@@ -0,0 +1,206 @@
+
+import { ModelProvider, JsonTask, ContentPart, AspectRatio } from './modelProvider';
+import { Script, StoryElements, AnalyzedCharacter, EpisodeSummary } from '../types';
+import { estimateTokens, IMAGE_INPUT_TOKENS, IMAGE_OUTPUT_TOKENS } from './costLedger';
+
+/**
+ * OFFLINE MOCK MODEL PROVIDER
+ * Deterministic stand-in for the Gemini API: canned analyses and a canned script, storyboard
+ * prompts derived from the actual action lines, labelled placeholder images drawn on a canvas
+ * and silent speech. Lets the whole pipeline run without an API key or network. Token usage
+ * is estimated from the text sizes so the cost ledger has realistic numbers to show.
+ */
+
+const MOCK_LATENCY_MS = 150;
+
+const MOCK_CHARACTERS: AnalyzedCharacter[] = [
+    { name: 'CAPTAIN VEGA', gender: 'female', race: 'Latina', voiceDescription: 'firm', otherDescriptors: 'Weathered flight jacket, unimpressed by everything' },
+    { name: 'DOC', gender: 'male', race: 'Black', voiceDescription: 'gravelly', otherDescriptors: 'Ship physician, grey beard, reading glasses on a chain' },
+    { name: 'BOLT', gender: 'unknown', voiceDescription: 'upbeat', otherDescriptors: 'Boxy maintenance robot with a single blue eye' },
+];
+
+const MOCK_SCRIPT: Script = {
+    source_file: 'mock-provider',
+    title: 'The Artifact That Would Not Stop Humming',
+    scene_elements: [
+        { type: 'scene_heading', content: 'INT. SHIP BRIDGE - NIGHT' },
+        { type: 'action', content: 'CAPTAIN VEGA slumps in the command chair, staring at a glowing artifact humming on the console.' },
+        { type: 'dialogue_block', character: 'CAPTAIN VEGA', elements: [
+            { type: 'dialogue', content: 'Who brought the space rock onto my bridge?' },
+        ] },
+        { type: 'action', content: 'BOLT rolls in, eye flickering guiltily, a cleaning rag dangling from one claw.' },
+        { type: 'dialogue_block', character: 'BOLT', elements: [
+            { type: 'parenthetical', content: 'too quickly' },
+            { type: 'dialogue', content: 'Define "brought." Define "rock."' },
+        ] },
+        { type: 'transition', content: 'CUT TO:' },
+        { type: 'scene_heading', content: 'INT. MED BAY - CONTINUOUS' },
+        { type: 'action', content: 'DOC holds the artifact up to a lamp. It hums a little louder, almost smugly.' },
+        { type: 'dialogue_block', character: 'DOC', elements: [
+            { type: 'dialogue', content: 'It is not dangerous. It is just extremely annoying. Like the rest of this crew.' },
+        ] },
+        { type: 'action', content: 'The artifact plays the first three notes of the ship\'s anthem. Everyone freezes.' },
+        { type: 'scene_heading', content: 'EXT. SHIP HULL - SPACE' },
+        { type: 'action', content: 'BOLT, tethered to the hull, gently places the artifact back on the moon below.' },
+        { type: 'dialogue_block', character: 'BOLT', elements: [
+            { type: 'dialogue', content: 'Goodbye, friend. Please stop humming.' },
+        ] },
+    ],
+};
+
+const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('The mock request was aborted.'));
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('The mock request was aborted.'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const hashString = (text: string): number => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+    return hash;
+};
+
+const respondToTask = (task: JsonTask): unknown => {
+    switch (task.kind) {
+        case 'storyAnalysis': {
+            const analysis: StoryElements = {
+                characters: MOCK_CHARACTERS.map(c => `${c.name}: ${c.otherDescriptors}`).join('\n'),
+                story: `A small, underfunded starship crew bickers its way across the galaxy. (Mock analysis of ${task.files.map(f => f.name).join(', ')}.)`,
+                today: 'The crew finds a mysterious artifact that will not stop humming.',
+            };
+            return analysis;
+        }
+        case 'characterAnalysis':
+            return { characters: MOCK_CHARACTERS };
+        case 'script':
+            return MOCK_SCRIPT;
+        case 'cohesivePrompts':
+            return {
+                prompts: task.scenes.map(scene => ({
+                    sceneIndex: scene.sceneIndex,
+                    prompt: `Medium shot. ${scene.content}`,
+                    characters: MOCK_CHARACTERS
+                        .filter(c => scene.content.toUpperCase().includes(c.name))
+                        .map(c => c.name),
+                })),
+            };
+        case 'hs3000Dialogue':
+            return {
+                lines: task.inputs.map((input, i) => ({
+                    character: input.character,
+                    dialogue: input.isDuplicate
+                        ? `Didn't we already storyboard this line ${i + 1} frames ago?`
+                        : `${input.originalDialogue.split(/(?<=[.!?])\s/)[0]}`,
+                })),
+            };
+        case 'episodeSummary': {
+            const actions = task.script.scene_elements.filter(el => el.type === 'action').map(el => el.content);
+            const summary: EpisodeSummary = {
+                synopsis: `${task.script.title}: ${actions.slice(0, 2).join(' ')}`,
+                runningGags: ['Nobody admits who brought the artifact aboard'],
+            };
+            return summary;
+        }
+    }
+};
+
+const ASPECT_SIZES: Record<AspectRatio, [number, number]> = {
+    '1:1': [512, 512],
+    '16:9': [640, 360],
+    '9:16': [360, 640],
+    '4:3': [576, 432],
+    '3:4': [432, 576],
+};
+
+const drawPlaceholderImage = (parts: ContentPart[], aspectRatio: AspectRatio): string => {
+    const promptText = parts.map(p => ('text' in p ? p.text : '')).join(' ').trim();
+    const referenceCount = parts.filter(p => 'inlineData' in p).length;
+    const [width, height] = ASPECT_SIZES[aspectRatio];
+    const hue = hashString(promptText) % 360;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is unavailable for mock image rendering.');
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 30%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 15%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.font = 'bold 20px monospace';
+    ctx.fillText('MOCK STORYBOARD FRAME', 20, 36);
+    ctx.font = '13px monospace';
+    ctx.fillText(`${referenceCount} reference image(s)`, 20, 58);
+
+    const words = promptText.split(/\s+/);
+    let line = '';
+    let y = 90;
+    for (const word of words) {
+        if (y > height - 20) break;
+        if (ctx.measureText(`${line} ${word}`).width > width - 40) {
+            ctx.fillText(line, 20, y);
+            line = word;
+            y += 18;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line && y <= height - 20) ctx.fillText(line, 20, y);
+
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+const SPEECH_SAMPLE_RATE = 24000;
+
+// Roughly the time it takes to read the line aloud: ~15 characters per second.
+const speechSeconds = (text: string) => Math.min(Math.max(text.length / 15, 1), 10);
+
+/** Audio output is billed at 32 tokens per second. */
+const AUDIO_TOKENS_PER_SECOND = 32;
+
+const silentPcmBase64 = (text: string): string => {
+    const seconds = speechSeconds(text);
+    const bytes = new Uint8Array(Math.round(seconds * SPEECH_SAMPLE_RATE) * 2);
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+export const createMockProvider = (): ModelProvider => ({
+    name: 'mock',
+
+    async generateJson({ task, prompt, signal }) {
+        await delay(signal);
+        const text = JSON.stringify(respondToTask(task));
+        return { text, usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text), images: 0 } };
+    },
+
+    async generateImage({ parts, aspectRatio, signal }) {
+        await delay(signal);
+        const inputTokens = parts.reduce((sum, p) => sum + ('text' in p ? estimateTokens(p.text) : IMAGE_INPUT_TOKENS), 0);
+        return { imageBase64: drawPlaceholderImage(parts, aspectRatio), blocked: false, usage: { inputTokens, outputTokens: IMAGE_OUTPUT_TOKENS, images: 1 } };
+    },
+
+    async generateSpeech({ text, signal }) {
+        await delay(signal);
+        return {
+            audioBase64: silentPcmBase64(text),
+            mimeType: `audio/L16;codec=pcm;rate=${SPEECH_SAMPLE_RATE}`,
+            usage: { inputTokens: estimateTokens(text), outputTokens: Math.round(speechSeconds(text) * AUDIO_TOKENS_PER_SECOND), images: 0 },
+        };
+    },
+});
@@ -0,0 +1,87 @@
+
+import { Schema } from "@google/genai";
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { Script } from '../types';
+import { TokenUsage } from './costLedger';
+
+/**
+ * MODEL PROVIDER INTERFACE
+ * geminiService.ts owns the prompts and response schemas; a provider only moves them to a
+ * model and back. Each JSON request carries a `task` describing what is being asked, so an
+ * offline provider can answer without having to understand the prompt text.
+ */
+
+export type JsonTask =
+    | { kind: 'storyAnalysis'; files: { name: string, content: string }[] }
+    | { kind: 'characterAnalysis'; sourceText: string }
+    | { kind: 'script' }
+    | { kind: 'cohesivePrompts'; scenes: { sceneIndex: number; content: string }[] }
+    | { kind: 'hs3000Dialogue'; inputs: { character: string, originalDialogue: string, isDuplicate: boolean }[] }
+    | { kind: 'episodeSummary'; script: Script };
+
+export type ContentPart =
+    | { text: string }
+    | { inlineData: { data: string; mimeType: string } };
+
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
+export interface JsonRequest {
+    task: JsonTask;
+    model: string;
+    prompt: string;
+    schema: Schema;
+    signal?: AbortSignal;
+}
+
+export interface ImageRequest {
+    model: string;
+    parts: ContentPart[];
+    aspectRatio: AspectRatio;
+    signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+    model: string;
+    text: string;
+    voiceName: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * Every result carries the token usage the model reported, when it reported any, for the cost ledger.
+ */
+export interface ModelProvider {
+    name: string;
+    /** `text` is the raw JSON text of the response, or undefined if the model returned nothing. */
+    generateJson(request: JsonRequest): Promise<{ text: string | undefined; usage?: TokenUsage }>;
+    /** `blocked` is true when the model withheld or rewrote the image for safety reasons. */
+    generateImage(request: ImageRequest): Promise<{ imageBase64: string | null; blocked: boolean; usage?: TokenUsage }>;
+    /** Returns 16-bit mono PCM audio; `mimeType` carries the sample rate (e.g. `audio/L16;rate=24000`). */
+    generateSpeech(request: SpeechRequest): Promise<{ audioBase64: string | null; mimeType?: string; usage?: TokenUsage }>;
+}
+
+let activeProvider: ModelProvider | null = null;
+
+/** The provider named by MODEL_PROVIDER ('gemini' or 'mock'); Gemini is the default. */
+export const configuredProviderName = (): 'gemini' | 'mock' =>
+    (process.env.MODEL_PROVIDER || 'gemini').toLowerCase() === 'mock' ? 'mock' : 'gemini';
+
+/** Why the configured provider can't be used, or null when it can. */
+export const modelProviderProblem = (): string | null =>
+    configuredProviderName() === 'gemini' && !process.env.API_KEY
+        ? 'GEMINI_API_KEY is not set. Add it to .env.local, or set MODEL_PROVIDER=mock to run offline with placeholder output.'
+        : null;
+
+/**
+ * Resolves the provider named by MODEL_PROVIDER. The mock provider is only used when asked
+ * for: its placeholder output must never pass for a real run.
+ */
+export const getModelProvider = (): ModelProvider => {
+    if (!activeProvider) {
+        const problem = modelProviderProblem();
+        if (problem) throw new Error(problem);
+        activeProvider = configuredProviderName() === 'mock' ? createMockProvider() : createGeminiProvider(process.env.API_KEY!);
+    }
+    return activeProvider;
+};
@@ -0,0 +1,152 @@
+
+import JSZip from 'jszip';
+import { Script, GeneratedImage, GeneratedCharacterPortrait, GeneratedAudio, Hs3000Line } from '../types';
+import { validateScript } from './validation';
+import { GenerationReport, isGenerationReport, legacyGenerationReport } from './generationReport';
+import { attachHs3000Lines, hs3000FormatFromFileName, parseHs3000 } from './hs3000';
+
+/**
+ * PROJECT BUNDLE READER
+ * Recognises an `_assets.zip` written by handleDownloadZip and restores the session it
+ * was exported from. A bundle is identified by `script.json` sitting next to
+ * `generation_report.txt`, optionally inside a single top-level folder. Bundles written
+ * before the structured report existed have no `generation_report.json`; their text report
+ * is kept as a single legacy stage. The HS3000 lines are read from the JSON variant when the
+ * bundle has one, since older bundles only have the text file.
+ *
+ * Each scene sidecar holds the panel prompt, followed by a blank line and the panel's HS3000
+ * line when it has one; that block is only removed when it matches the bundle's HS3000 line for
+ * the scene, as prompts may contain blank lines themselves. Portrait file names lose the
+ * character's spelling, so `images/characters/names.json` lists the real names; bundles without
+ * it fall back to the file name.
+ */
+
+export interface ProjectBundle {
+    script: Script;
+    report: GenerationReport;
+    images: GeneratedImage[];
+    portraits: Record<string, GeneratedCharacterPortrait>;
+    hs3000Lines: Hs3000Line[];
+    audio: GeneratedAudio[];
+}
+
+const findBundleRoot = (zip: JSZip): string | null => {
+    const scriptEntry = zip.file(/(^|\/)script\.json$/)
+        .find(entry => zip.file(entry.name.replace(/script\.json$/, 'generation_report.txt')));
+    return scriptEntry ? scriptEntry.name.replace(/script\.json$/, '') : null;
+};
+
+/**
+ * Reads a project bundle, or returns null when the zip is ordinary input material.
+ */
+export async function readProjectBundle(zip: JSZip): Promise<ProjectBundle | null> {
+    const root = findBundleRoot(zip);
+    if (root === null) return null;
+
+    const read = (path: string) => zip.file(`${root}${path}`)?.async('string') ?? Promise.resolve('');
+
+    let rawScript: unknown;
+    try {
+        rawScript = JSON.parse(await read('script.json'));
+    } catch (e) {
+        throw new Error(`The project bundle's script.json could not be read. Details: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    const { value: validatedScript, issues } = validateScript(rawScript);
+    if (!validatedScript) {
+        throw new Error(`The project bundle's script.json does not contain a valid script. ${issues.join(' ')}`);
+    }
+    // The bundled images and audio are numbered by scene element, so a dropped element would attach
+    // them to the wrong lines. Such a bundle is rejected; repairs that keep every element are fine.
+    const rawElements = (rawScript as { scene_elements: unknown[] }).scene_elements;
+    if (validatedScript.scene_elements.length !== rawElements.length) {
+        throw new Error(`The project bundle's script.json has scene elements that cannot be restored without renumbering the bundled images. ${issues.join(' ')}`);
+    }
+    if (issues.length > 0) console.warn("Repaired script.json from project bundle:", issues);
+    const script: Script = validatedScript;
+
+    let report: GenerationReport | null = null;
+    const reportJson = await read('generation_report.json');
+    if (reportJson) {
+        try {
+            const parsed: unknown = JSON.parse(reportJson);
+            if (isGenerationReport(parsed)) report = parsed;
+        } catch (e) {
+            console.warn("Could not parse generation_report.json from project bundle; using the text report:", e);
+        }
+    }
+    report ??= legacyGenerationReport(await read('generation_report.txt'));
+
+    const images: GeneratedImage[] = [];
+    const portraits: Record<string, GeneratedCharacterPortrait> = {};
+    const audio: GeneratedAudio[] = [];
+    const entryPromises: Promise<void>[] = [];
+
+    let portraitNames: Record<string, unknown> = {};
+    const portraitNamesJson = await read('images/characters/names.json');
+    if (portraitNamesJson) {
+        try {
+            const parsed: unknown = JSON.parse(portraitNamesJson);
+            if (typeof parsed === 'object' && parsed !== null) portraitNames = parsed as Record<string, unknown>;
+        } catch (e) {
+            console.warn("Could not parse images/characters/names.json from project bundle; using file names:", e);
+        }
+    }
+
+    zip.forEach((relativePath, entry) => {
+        if (entry.dir || !relativePath.startsWith(root)) return;
+        const path = relativePath.slice(root.length);
+
+        const sceneMatch = path.match(/^images\/scene_(\d+)\.png$/);
+        const portraitMatch = path.match(/^images\/characters\/([^/]+)\.png$/);
+        const audioMatch = path.match(/^audio\/dialogue_(\d+)[^/]*\.wav$/);
+
+        if (sceneMatch) {
+            entryPromises.push((async () => {
+                const base64 = await entry.async('base64');
+                // The HS3000 line is stripped from the prompt below, once the lines are read.
+                const sidecar = await read(path.replace(/\.png$/, '.txt'));
+                images.push({ sceneIndex: parseInt(sceneMatch[1], 10), imageUrl: `data:image/png;base64,${base64}`, base64, prompt: sidecar });
+            })());
+        } else if (portraitMatch) {
+            entryPromises.push((async () => {
+                const base64 = await entry.async('base64');
+                const prompt = await read(path.replace(/\.png$/, '.txt'));
+                const savedName = portraitNames[`${portraitMatch[1]}.png`];
+                portraits[typeof savedName === 'string' ? savedName : portraitMatch[1].replace(/_/g, ' ')] = { base64, mimeType: 'image/png', prompt };
+            })());
+        } else if (audioMatch) {
+            entryPromises.push((async () => {
+                const audioBlob = new Blob([await entry.async('arraybuffer')], { type: 'audio/wav' });
+                audio.push({ sceneIndex: parseInt(audioMatch[1], 10), audioBlob });
+            })());
+        }
+    });
+    await Promise.all(entryPromises);
+
+    const hs3000Entries = zip.file(/(^|\/)0hs3000_[^/]*$/)
+        .filter(entry => entry.name.startsWith(root) && !entry.name.slice(root.length).includes('/'))
+        .map(entry => ({ entry, format: hs3000FormatFromFileName(entry.name) }));
+    const hs3000Entry = hs3000Entries.find(e => e.format === 'json') ?? hs3000Entries.find(e => e.format === 'text');
+    let hs3000Lines: Hs3000Line[] = [];
+    if (hs3000Entry?.format) {
+        const parsed = parseHs3000(await hs3000Entry.entry.async('string'), hs3000Entry.format);
+        const attached = attachHs3000Lines(parsed.lines, images, script);
+        const issues = [...parsed.issues, ...attached.issues];
+        if (issues.length > 0) console.warn(`Issues reading ${hs3000Entry.entry.name} from project bundle:`, issues);
+        hs3000Lines = attached.lines;
+    }
+    for (const image of images) {
+        const line = hs3000Lines.find(l => l.sceneIndex === image.sceneIndex);
+        const dialogueBlock = line ? `\n\n${line.character}: ${line.dialogue}` : '';
+        if (dialogueBlock && image.prompt.endsWith(dialogueBlock)) image.prompt = image.prompt.slice(0, -dialogueBlock.length);
+    }
+
+    return {
+        script,
+        report,
+        images: images.sort((a, b) => a.sceneIndex - b.sceneIndex),
+        portraits,
+        hs3000Lines,
+        audio: audio.sort((a, b) => a.sceneIndex - b.sceneIndex),
+    };
+}
@@ -0,0 +1,169 @@
+
+/**
+ * MODEL REQUEST SCHEDULER
+ * Every model call in the service layer goes through one scheduler, which caps how many
+ * requests run at once per role (image, speech, script...), aborts calls that exceed their
+ * role's timeout, and retries
+ * rate-limit / overload / network failures with exponential backoff and jitter. A caller's
+ * AbortSignal cancels a request at any point: queued, in flight or waiting to retry.
+ */
+
+/**
+ * Limits are keyed by role (a `ModelSettings` key) rather than model name, so they still
+ * apply after a role's model is renamed in the settings. Roles without an entry use the defaults.
+ */
+export interface SchedulerConfig {
+    defaultMaxConcurrency: number;
+    maxConcurrencyPerRole: Record<string, number>;
+    defaultTimeoutMs: number;
+    timeoutMsPerRole: Record<string, number>;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+    defaultMaxConcurrency: 4,
+    maxConcurrencyPerRole: {},
+    defaultTimeoutMs: 120_000,
+    timeoutMsPerRole: {},
+    maxRetries: 4,
+    baseDelayMs: 1_000,
+    maxDelayMs: 30_000,
+};
+
+export interface RetryEvent {
+    model: string;
+    label: string;
+    attempt: number;
+    delayMs: number;
+    reason: string;
+}
+
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_MESSAGE_PATTERN = /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|rate limit|quota|Failed to fetch|NetworkError|network error|ECONNRESET|socket hang up/i;
+
+export const isRetryableError = (error: unknown): boolean => {
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number' && RETRYABLE_STATUS_CODES.includes(status)) return true;
+    const message = error instanceof Error ? error.message : String(error);
+    return RETRYABLE_MESSAGE_PATTERN.test(message) || RETRYABLE_STATUS_CODES.some(code => message.includes(`"code":${code}`));
+};
+
+/** Honours a server-suggested delay such as `"retryDelay": "23s"` in 429 error details. */
+const suggestedRetryDelayMs = (error: unknown): number => {
+    const message = error instanceof Error ? error.message : String(error);
+    const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+    return match ? parseFloat(match[1]) * 1000 : 0;
+};
+
+const cancellationError = (label: string) => new Error(`Cancelled: the ${label} request was aborted.`);
+
+/** Resolves after `ms`, or rejects as soon as `signal` aborts. */
+const sleep = (ms: number, label: string, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancellationError(label));
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancellationError(label));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const createRequestScheduler = (initialConfig: SchedulerConfig, onRetry?: (event: RetryEvent) => void) => {
+    let config = initialConfig;
+    const active: Record<string, number> = {};
+    const waiting: Record<string, (() => void)[]> = {};
+
+    const limitFor = (role: string) => Math.max(1, config.maxConcurrencyPerRole[role] ?? config.defaultMaxConcurrency);
+
+    const acquire = async (role: string, label: string, signal?: AbortSignal) => {
+        while ((active[role] ?? 0) >= limitFor(role)) {
+            await new Promise<void>((resolve, reject) => {
+                if (signal?.aborted) return reject(cancellationError(label));
+                const queue = (waiting[role] ??= []);
+                const onAbort = () => {
+                    // Leave the queue so a later release wakes a caller that is still waiting.
+                    queue.splice(queue.indexOf(wake), 1);
+                    reject(cancellationError(label));
+                };
+                const wake = () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                };
+                queue.push(wake);
+                signal?.addEventListener('abort', onAbort, { once: true });
+            });
+        }
+        active[role] = (active[role] ?? 0) + 1;
+    };
+
+    const release = (role: string) => {
+        active[role] -= 1;
+        waiting[role]?.shift()?.();
+    };
+
+    const attemptWithTimeout = async <T>(role: string, model: string, label: string, call: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+        const timeoutMs = config.timeoutMsPerRole[role] ?? config.defaultTimeoutMs;
+        const controller = new AbortController();
+        let timer: number | undefined;
+        let onAbort: (() => void) | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = window.setTimeout(() => {
+                controller.abort();
+                reject(new Error(`DEADLINE_EXCEEDED: request to ${model} timed out after ${Math.round(timeoutMs / 1000)}s.`));
+            }, timeoutMs);
+            onAbort = () => {
+                reject(cancellationError(label));
+                controller.abort();
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+        try {
+            return await Promise.race([call(controller.signal), timeout]);
+        } finally {
+            clearTimeout(timer);
+            if (onAbort) signal?.removeEventListener('abort', onAbort);
+        }
+    };
+
+    return {
+        configure(overrides: Partial<SchedulerConfig>) {
+            config = { ...config, ...overrides };
+        },
+
+        /**
+         * Runs `call` under the role's concurrency limit. The call receives an AbortSignal
+         * that fires when it times out or `signal` aborts; retryable failures are retried up to
+         * `maxRetries` times. A cancelled request rejects with an error starting "Cancelled:".
+         */
+        async run<T>(role: string, model: string, label: string, call: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+            await acquire(role, label, signal);
+            try {
+                for (let attempt = 0; ; attempt++) {
+                    try {
+                        if (signal?.aborted) throw cancellationError(label);
+                        return await attemptWithTimeout(role, model, label, call, signal);
+                    } catch (error) {
+                        if (signal?.aborted || attempt >= config.maxRetries || !isRetryableError(error)) throw error;
+                        const backoff = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+                        const delayMs = Math.min(config.maxDelayMs, Math.max(backoff / 2 + Math.random() * backoff / 2, suggestedRetryDelayMs(error)));
+                        onRetry?.({
+                            model,
+                            label,
+                            attempt: attempt + 1,
+                            delayMs: Math.round(delayMs),
+                            reason: error instanceof Error ? error.message : String(error),
+                        });
+                        await sleep(delayMs, label, signal);
+                    }
+                }
+            } finally {
+                release(role);
+            }
+        },
+    };
+};
@@ -0,0 +1,93 @@
+import { Script } from '../types';
+
+/**
+ * SCENE GRAPH
+ * `Script.scene_elements` is a flat list; this derives the scenes it describes. Each scene
+ * starts at a scene heading (the first may start before any heading) and runs up to the
+ * next one. Its slugline is parsed into setting (INT/EXT), location and time of day, so
+ * callers can tell when the storyboard moves to a different place.
+ */
+
+export type SceneSetting = 'INT' | 'EXT' | 'INT/EXT';
+
+export interface Slugline {
+    /** The heading as written. */
+    raw: string;
+    /** Null when the heading has no INT/EXT prefix (e.g. a forced Fountain heading). */
+    setting: SceneSetting | null;
+    location: string;
+    timeOfDay: string | null;
+}
+
+export interface Scene {
+    /** 1-based position in the script. */
+    number: number;
+    /** Element index of the scene heading; null for elements before the first heading. */
+    headingIndex: number | null;
+    slugline: Slugline | null;
+    /** Element indexes covered by the scene, heading included: `start` inclusive, `end` exclusive. */
+    start: number;
+    end: number;
+}
+
+const SETTING_PATTERN = /^(INT\.?\s*\/\s*EXT|EXT\.?\s*\/\s*INT|I\/E|INT|EXT|EST)\.?\s+/i;
+const TIMES_OF_DAY = new Set([
+    'DAY', 'NIGHT', 'MORNING', 'AFTERNOON', 'EVENING', 'DAWN', 'DUSK', 'SUNRISE', 'SUNSET', 'NOON', 'MIDNIGHT',
+    'CONTINUOUS', 'LATER', 'MOMENTS LATER', 'SAME', 'SAME TIME',
+]);
+
+const settingOf = (prefix: string): SceneSetting => {
+    const normalized = prefix.toUpperCase().replace(/[.\s]/g, '');
+    if (normalized === 'INT') return 'INT';
+    // Establishing shots are exteriors.
+    if (normalized === 'EXT' || normalized === 'EST') return 'EXT';
+    return 'INT/EXT';
+};
+
+export const parseSlugline = (heading: string): Slugline => {
+    const raw = heading.trim();
+    // Fountain scene numbers (`#12#`) are not part of the location.
+    let rest = raw.replace(/\s*#[^#]*#$/, '').replace(/^\./, '');
+    let setting: SceneSetting | null = null;
+    const prefix = rest.match(SETTING_PATTERN);
+    if (prefix) {
+        setting = settingOf(prefix[1]);
+        rest = rest.slice(prefix[0].length);
+    }
+
+    const parts = rest.split(/\s+[-–—]+\s+/);
+    let timeOfDay: string | null = null;
+    if (parts.length > 1 && TIMES_OF_DAY.has(parts[parts.length - 1].trim().toUpperCase().replace(/[().]/g, ''))) {
+        timeOfDay = parts.pop()!.trim().toUpperCase();
+    }
+    return { raw, setting, location: parts.join(' - ').trim().toUpperCase(), timeOfDay };
+};
+
+export const buildSceneGraph = (script: Script): Scene[] => {
+    const scenes: Scene[] = [];
+    script.scene_elements.forEach((el, index) => {
+        if (el.type === 'scene_heading') {
+            scenes.push({ number: scenes.length + 1, headingIndex: index, slugline: parseSlugline(el.content || ''), start: index, end: index + 1 });
+        } else if (scenes.length === 0) {
+            scenes.push({ number: 1, headingIndex: null, slugline: null, start: index, end: index + 1 });
+        } else {
+            scenes[scenes.length - 1].end = index + 1;
+        }
+    });
+    return scenes;
+};
+
+export const sceneForElement = (scenes: Scene[], elementIndex: number): Scene | undefined =>
+    scenes.find(scene => scene.start <= elementIndex && elementIndex < scene.end);
+
+/**
+ * Identifies where a scene takes place. Interior and exterior of the same place are different
+ * locations; the time of day is ignored, so a CONTINUOUS scene in the same room matches.
+ */
+export const locationKey = (scene: Scene | undefined): string =>
+    scene?.slugline ? `${scene.slugline.setting ?? ''}|${scene.slugline.location.replace(/\s+/g, ' ')}` : '';
+
+export const isSameLocation = (a: Scene | undefined, b: Scene | undefined): boolean => locationKey(a) === locationKey(b);
+
+export const describeScene = (scene: Scene | undefined): string =>
+    scene?.slugline ? scene.slugline.raw : 'before the first scene heading';
@@ -0,0 +1,221 @@
+
+import { Script, SceneElement } from '../types';
+
+/**
+ * SCREENPLAY PDF EXPORT
+ * Lays a Script out in standard US screenplay format (Courier 12pt, 10 characters and
+ * 6 lines per inch on US Letter) and writes it as a minimal PDF using the built-in
+ * Courier font, so no font embedding or third-party library is required.
+ */
+
+const PAGE_WIDTH_IN = 8.5;
+const PAGE_HEIGHT_IN = 11;
+const TOP_MARGIN_IN = 1;
+const LINES_PER_PAGE = 54;
+const CHARS_PER_INCH = 10;
+const POINTS_PER_INCH = 72;
+const LINE_HEIGHT_PT = 12;
+
+// Horizontal positions (inches from the left edge of the page) and widths (characters).
+const LAYOUT = {
+    action: { x: 1.5, width: 60 },
+    sceneHeading: { x: 1.5, width: 60 },
+    character: { x: 3.7, width: 38 },
+    parenthetical: { x: 3.1, width: 25 },
+    dialogue: { x: 2.5, width: 35 },
+    transitionRight: 7.5,
+    pageNumberRight: 7.5,
+};
+
+type LayoutLine = { text: string; x: number };
+type Page = LayoutLine[];
+
+const BLANK: LayoutLine = { text: '', x: 0 };
+
+const wrapText = (text: string, width: number): string[] => {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let current = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            while (word.length > width) {
+                if (current) { lines.push(current); current = ''; }
+                lines.push(word.slice(0, width));
+                word = word.slice(width);
+            }
+            if (!current) current = word;
+            else if (current.length + 1 + word.length <= width) current += ` ${word}`;
+            else { lines.push(current); current = word; }
+        });
+        lines.push(current);
+    });
+    return lines.filter((line, i) => line || (i > 0 && i < lines.length - 1));
+};
+
+const rightAligned = (text: string, rightEdge: number): LayoutLine =>
+    ({ text, x: rightEdge - text.length / CHARS_PER_INCH });
+
+/**
+ * Paginates scene elements, keeping scene headings with the following element and
+ * splitting long speeches with (MORE) / (CONT'D) as in a production draft.
+ */
+const paginate = (elements: SceneElement[]): Page[] => {
+    const pages: Page[] = [];
+    let page: Page = [];
+    const remaining = () => LINES_PER_PAGE - page.length;
+    const newPage = () => { pages.push(page); page = []; };
+    // Room left once the blank lines preceding the next element are accounted for.
+    const available = (spacing: number) => remaining() - (page.length > 0 ? spacing : 0);
+    const addSpacing = (count: number) => {
+        if (page.length === 0) return;
+        for (let i = 0; i < count && remaining() > 0; i++) page.push(BLANK);
+    };
+
+    elements.forEach(el => {
+        switch (el.type) {
+            case 'scene_heading': {
+                const lines = wrapText(el.content.toUpperCase(), LAYOUT.sceneHeading.width)
+                    .map(text => ({ text, x: LAYOUT.sceneHeading.x }));
+                // Never strand a heading at the bottom: it needs its own lines plus two of what follows.
+                if (available(2) < lines.length + 3) newPage();
+                addSpacing(2);
+                page.push(...lines);
+                break;
+            }
+            case 'action': {
+                const lines = wrapText(el.content, LAYOUT.action.width).map(text => ({ text, x: LAYOUT.action.x }));
+                if (available(1) < Math.min(lines.length, 2)) newPage();
+                addSpacing(1);
+                lines.forEach(line => {
+                    if (remaining() === 0) newPage();
+                    page.push(line);
+                });
+                break;
+            }
+            case 'transition': {
+                const text = el.content.trim().toUpperCase();
+                if (available(1) < 1) newPage();
+                addSpacing(1);
+                page.push(rightAligned(text, LAYOUT.transitionRight));
+                break;
+            }
+            case 'dialogue_block': {
+                const name = el.character.trim().toUpperCase();
+                const body: LayoutLine[] = [];
+                el.elements.forEach(part => {
+                    if (part.type === 'parenthetical') {
+                        const inner = part.content.trim().replace(/^\(|\)$/g, '');
+                        wrapText(`(${inner})`, LAYOUT.parenthetical.width)
+                            .forEach(text => body.push({ text, x: LAYOUT.parenthetical.x }));
+                    } else {
+                        wrapText(part.content, LAYOUT.dialogue.width)
+                            .forEach(text => body.push({ text, x: LAYOUT.dialogue.x }));
+                    }
+                });
+
+                // Only split a speech when the cue, two lines of it and (MORE) fit on this page.
+                if (available(1) < 1 + body.length && (available(1) < 4 || body.length < 4)) newPage();
+                addSpacing(1);
+                page.push({ text: name, x: LAYOUT.character.x });
+
+                let i = 0;
+                while (body.length - i > remaining()) {
+                    // Reserve one line for (MORE) and never end a page on a parenthetical.
+                    let take = remaining() - 1;
+                    while (take > 1 && body[i + take - 1].x === LAYOUT.parenthetical.x) take--;
+                    page.push(...body.slice(i, i + take));
+                    page.push({ text: '(MORE)', x: LAYOUT.character.x });
+                    i += take;
+                    newPage();
+                    page.push({ text: `${name} (CONT'D)`, x: LAYOUT.character.x });
+                }
+                page.push(...body.slice(i));
+                break;
+            }
+        }
+    });
+
+    if (page.length > 0 || pages.length === 0) pages.push(page);
+    return pages;
+};
+
+const toWinAnsi = (text: string): string =>
+    text
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/—/g, '--')
+        .replace(/–/g, '-')
+        .replace(/…/g, '...')
+        .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+        .replace(/\\/g, '\\\\')
+        .replace(/\(/g, '\\(')
+        .replace(/\)/g, '\\)');
+
+const showText = (text: string, x: number, yPt: number): string =>
+    `1 0 0 1 ${(x * POINTS_PER_INCH).toFixed(2)} ${yPt.toFixed(2)} Tm (${toWinAnsi(text)}) Tj`;
+
+const pageContentStream = (lines: LayoutLine[], pageNumber?: number): string => {
+    const ops = ['BT', '/F1 12 Tf'];
+    if (pageNumber) {
+        // Page numbers sit in the top margin, half an inch from the top edge.
+        const label = `${pageNumber}.`;
+        ops.push(showText(label, rightAligned(label, LAYOUT.pageNumberRight).x, (PAGE_HEIGHT_IN - 0.5) * POINTS_PER_INCH - 9));
+    }
+    lines.forEach((line, i) => {
+        if (!line.text) return;
+        ops.push(showText(line.text, line.x, (PAGE_HEIGHT_IN - TOP_MARGIN_IN) * POINTS_PER_INCH - (i + 1) * LINE_HEIGHT_PT + 3));
+    });
+    ops.push('ET');
+    return ops.join('\n');
+};
+
+const titlePage = (title: string): Page => {
+    const lines: Page = Array.from({ length: 20 }, () => BLANK);
+    wrapText(title.toUpperCase(), LAYOUT.action.width).forEach(text => {
+        lines.push({ text, x: (PAGE_WIDTH_IN - text.length / CHARS_PER_INCH) / 2 });
+    });
+    return lines;
+};
+
+const writePdf = (pages: { lines: Page; pageNumber?: number }[]): Uint8Array => {
+    const objects: string[] = [];
+    const pageObjectIds: number[] = [];
+    // 1: catalog, 2: page tree, 3: font; pages and their content streams follow.
+    const firstPageId = 4;
+    pages.forEach(({ lines, pageNumber }, i) => {
+        const pageId = firstPageId + i * 2;
+        const contentId = pageId + 1;
+        pageObjectIds.push(pageId);
+        const stream = pageContentStream(lines, pageNumber);
+        objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH_IN * POINTS_PER_INCH} ${PAGE_HEIGHT_IN * POINTS_PER_INCH}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+        objects[contentId] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageObjectIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+        offsets[id] = pdf.length;
+        pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+        pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character is single-byte WinAnsi at this point, so string offsets are byte offsets.
+    return Uint8Array.from(pdf, c => c.charCodeAt(0));
+};
+
+/**
+ * Renders a Script as a paginated screenplay PDF with a title page.
+ * Script pages after the first carry a page number in the top right corner.
+ */
+export const scriptToPdf = (script: Script): Blob => {
+    const scriptPages = paginate(script.scene_elements)
+        .map((lines, i) => ({ lines, pageNumber: i === 0 ? undefined : i + 1 }));
+    return new Blob([writePdf([{ lines: titlePage(script.title) }, ...scriptPages])], { type: 'application/pdf' });
+};
@@ -0,0 +1,101 @@
+import { idbGetAll, idbPut, idbDelete, STORES } from './db';
+import { Script, DialogueBlock, EpisodeSummary } from '../types';
+
+/**
+ * SERIES LOG
+ * One record per finished episode: title, synopsis, speaking characters and running gags.
+ * The most relevant earlier episodes are written into the next script prompt, so the show
+ * keeps continuity and callbacks over a season.
+ */
+
+export interface EpisodeRecord {
+    id: string;
+    title: string;
+    createdAt: string;
+    synopsis: string;
+    /** Upper-cased names of every character with dialogue. */
+    characters: string[];
+    /** Speaking characters who had not appeared in any earlier logged episode. */
+    newCharacters: string[];
+    runningGags: string[];
+    /** The episode's scene elements as JSON, so a re-run of the same script is not logged twice. Missing from older records. */
+    scriptText?: string;
+}
+
+const scriptTextOf = (script: Script): string => JSON.stringify(script.scene_elements);
+
+export const createEpisodeRecord = (script: Script, summary: EpisodeSummary, priorEpisodes: EpisodeRecord[]): EpisodeRecord => {
+    const characters = [...new Set(
+        script.scene_elements
+            .filter((el): el is DialogueBlock => el.type === 'dialogue_block')
+            .map(el => el.character.toUpperCase().trim())
+    )];
+    const seenBefore = new Set(priorEpisodes.flatMap(e => e.characters));
+    return {
+        id: crypto.randomUUID(),
+        title: script.title,
+        createdAt: new Date().toISOString(),
+        synopsis: summary.synopsis,
+        characters,
+        newCharacters: characters.filter(name => !seenBefore.has(name)),
+        runningGags: summary.runningGags,
+        scriptText: scriptTextOf(script),
+    };
+};
+
+/** The logged episode with the same title and script, if this script was logged before. */
+export const findLoggedEpisode = (episodes: EpisodeRecord[], script: Script): EpisodeRecord | undefined => {
+    const scriptText = scriptTextOf(script);
+    return episodes.find(e => e.title === script.title && e.scriptText === scriptText);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whether `name` appears in `text` as a whole word, not as part of a longer name ("AL" in "ALICE"). */
+const mentions = (text: string, name: string) => new RegExp(`(?<![A-Z0-9])${escapeRegExp(name)}(?![A-Z0-9])`).test(text);
+
+export const knownRunningGags = (episodes: EpisodeRecord[]): string[] =>
+    [...new Set(episodes.flatMap(e => e.runningGags))];
+
+/**
+ * Picks up to `limit` episodes for the next script: always the latest, then those sharing
+ * the most characters with `contextText`, newer episodes breaking ties. Returned oldest first.
+ */
+export const selectRelevantEpisodes = (episodes: EpisodeRecord[], contextText: string, limit: number): EpisodeRecord[] => {
+    if (limit <= 0 || episodes.length === 0) return [];
+    const context = contextText.toUpperCase();
+    const latest = episodes[episodes.length - 1];
+    const ranked = episodes.slice(0, -1)
+        .map((episode, index) => ({
+            episode,
+            score: episode.characters.filter(name => mentions(context, name)).length + index / episodes.length,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit - 1)
+        .map(({ episode }) => episode);
+    return episodes.filter(e => e === latest || ranked.includes(e));
+};
+
+/**
+ * Formats episodes for the script prompt, numbered by their position in the whole log.
+ */
+export const describeEpisodesForPrompt = (selected: EpisodeRecord[], allEpisodes: EpisodeRecord[]): string =>
+    selected.map(episode => {
+        const lines = [`Episode ${allEpisodes.indexOf(episode) + 1}: "${episode.title}"`, `Synopsis: ${episode.synopsis}`];
+        if (episode.newCharacters.length > 0) lines.push(`Introduced: ${episode.newCharacters.join(', ')}`);
+        if (episode.runningGags.length > 0) lines.push(`Running gags: ${episode.runningGags.join('; ')}`);
+        return lines.join('\n');
+    }).join('\n\n');
+
+export async function listEpisodes(): Promise<EpisodeRecord[]> {
+    const episodes = await idbGetAll<EpisodeRecord>(STORES.episodes);
+    return episodes.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function saveEpisode(episode: EpisodeRecord): Promise<void> {
+    await idbPut(STORES.episodes, episode.id, episode);
+}
+
+export async function deleteEpisode(id: string): Promise<void> {
+    await idbDelete(STORES.episodes, id);
+}
@@ -0,0 +1,179 @@
+import { AspectRatio } from './modelProvider';
+import { PriceTable, ModelPrice, DEFAULT_PRICE_TABLE, normalizePriceTable } from './costLedger';
+
+/**
+ * GENERATION SETTINGS
+ * Tunable pipeline values, edited in the settings panel and persisted in localStorage.
+ * A run captures the settings it started with in its checkpoint, so a resumed run keeps them.
+ */
+
+export interface ModelSettings {
+    /** Story and character analysis. */
+    analysis: string;
+    script: string;
+    storyboardPrompts: string;
+    image: string;
+    /** HS3000 dialogue lines. */
+    dialogue: string;
+    speech: string;
+}
+
+export type ModelRole = keyof ModelSettings;
+
+/** Request scheduling for one role's model calls. */
+export interface RequestLimits {
+    /** Calls allowed in flight at once. */
+    maxConcurrency: number;
+    /** A single attempt is aborted (and retried) after this long. */
+    timeoutSeconds: number;
+}
+
+export interface GenerationSettings {
+    maxSceneImages: number;
+    aspectRatio: AspectRatio;
+    models: ModelSettings;
+    requestLimits: Record<ModelRole, RequestLimits>;
+    /** Instructs the storyboard prompt writer to frame every panel as a medium shot. */
+    enforceMediumShot: boolean;
+    /** Largest normalized Levenshtein distance at which a character name still matches a reference image. */
+    characterMatchThreshold: number;
+    /** Most character reference images sent with one storyboard image, across all its characters. */
+    maxReferenceImages: number;
+    /** How many earlier episodes from the series log are written into the script prompt; 0 disables it. */
+    continuityEpisodes: number;
+    /** Prices per model name, used by the cost ledger. */
+    prices: PriceTable;
+}
+
+export const ASPECT_RATIOS: AspectRatio[] = ['16:9', '1:1', '9:16', '4:3', '3:4'];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+    maxSceneImages: 20,
+    aspectRatio: '16:9',
+    models: {
+        analysis: 'gemini-2.5-flash',
+        script: 'gemini-3-pro-preview',
+        storyboardPrompts: 'gemini-3-pro-preview',
+        image: 'gemini-2.5-flash-image',
+        dialogue: 'gemini-3-flash-preview',
+        speech: 'gemini-2.5-flash-preview-tts',
+    },
+    requestLimits: {
+        analysis: { maxConcurrency: 4, timeoutSeconds: 120 },
+        script: { maxConcurrency: 4, timeoutSeconds: 240 },
+        storyboardPrompts: { maxConcurrency: 4, timeoutSeconds: 240 },
+        image: { maxConcurrency: 2, timeoutSeconds: 180 },
+        dialogue: { maxConcurrency: 4, timeoutSeconds: 120 },
+        speech: { maxConcurrency: 3, timeoutSeconds: 120 },
+    },
+    enforceMediumShot: true,
+    characterMatchThreshold: 0.5,
+    maxReferenceImages: 4,
+    continuityEpisodes: 3,
+    prices: DEFAULT_PRICE_TABLE,
+};
+
+export const MODEL_LABELS: Record<keyof ModelSettings, string> = {
+    analysis: 'Story & character analysis',
+    script: 'Script writing',
+    storyboardPrompts: 'Storyboard prompts',
+    image: 'Images',
+    dialogue: 'HS3000 dialogue',
+    speech: 'Speech (TTS)',
+};
+
+const STORAGE_KEY = 'bot-thotle.generationSettings';
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * Fills in missing or out-of-range values from the defaults, so settings saved by an older
+ * version (or edited by hand) never break a run.
+ */
+export const normalizeGenerationSettings = (raw: unknown): GenerationSettings => {
+    const defaults = DEFAULT_GENERATION_SETTINGS;
+    const stored = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<Record<keyof GenerationSettings, unknown>>;
+    const storedModels = (typeof stored.models === 'object' && stored.models !== null ? stored.models : {}) as Partial<Record<keyof ModelSettings, unknown>>;
+
+    const storedLimits = (typeof stored.requestLimits === 'object' && stored.requestLimits !== null ? stored.requestLimits : {}) as Partial<Record<ModelRole, Partial<Record<keyof RequestLimits, unknown>>>>;
+
+    const models = { ...defaults.models };
+    const requestLimits = { ...defaults.requestLimits };
+    for (const role of Object.keys(models) as ModelRole[]) {
+        const name = storedModels[role];
+        if (typeof name === 'string' && name.trim()) models[role] = name.trim();
+        const limits = storedLimits[role] ?? {};
+        requestLimits[role] = {
+            maxConcurrency: Math.round(clamp(limits.maxConcurrency, 1, 16, defaults.requestLimits[role].maxConcurrency)),
+            timeoutSeconds: Math.round(clamp(limits.timeoutSeconds, 10, 900, defaults.requestLimits[role].timeoutSeconds)),
+        };
+    }
+
+    return {
+        maxSceneImages: Math.round(clamp(stored.maxSceneImages, 1, 100, defaults.maxSceneImages)),
+        aspectRatio: ASPECT_RATIOS.includes(stored.aspectRatio as AspectRatio) ? stored.aspectRatio as AspectRatio : defaults.aspectRatio,
+        models,
+        requestLimits,
+        enforceMediumShot: typeof stored.enforceMediumShot === 'boolean' ? stored.enforceMediumShot : defaults.enforceMediumShot,
+        characterMatchThreshold: clamp(stored.characterMatchThreshold, 0, 1, defaults.characterMatchThreshold),
+        maxReferenceImages: Math.round(clamp(stored.maxReferenceImages, 1, 10, defaults.maxReferenceImages)),
+        continuityEpisodes: Math.round(clamp(stored.continuityEpisodes, 0, 10, defaults.continuityEpisodes)),
+        prices: normalizePriceTable(stored.prices),
+    };
+};
+
+/** The distinct model names the settings use, in MODEL_LABELS order. */
+export const modelsInUse = (settings: GenerationSettings): string[] =>
+    [...new Set((Object.keys(MODEL_LABELS) as (keyof ModelSettings)[]).map(role => settings.models[role]))];
+
+export const loadGenerationSettings = (): GenerationSettings => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return normalizeGenerationSettings(stored ? JSON.parse(stored) : null);
+    } catch (e) {
+        console.warn('Failed to load generation settings; using defaults:', e);
+        return DEFAULT_GENERATION_SETTINGS;
+    }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn('Failed to save generation settings:', e);
+    }
+};
+
+/**
+ * Formats settings for the generation report, marking values that differ from the defaults.
+ */
+export const describeGenerationSettings = (settings: GenerationSettings): string => {
+    const defaults = DEFAULT_GENERATION_SETTINGS;
+    const mark = (changed: boolean) => changed ? ' (changed from default)' : '';
+    const lines = [
+        `Max Scene Images: ${settings.maxSceneImages}${mark(settings.maxSceneImages !== defaults.maxSceneImages)}`,
+        `Aspect Ratio: ${settings.aspectRatio}${mark(settings.aspectRatio !== defaults.aspectRatio)}`,
+        `Enforce Medium Shot: ${settings.enforceMediumShot ? 'Yes' : 'No'}${mark(settings.enforceMediumShot !== defaults.enforceMediumShot)}`,
+        `Character Match Threshold: ${settings.characterMatchThreshold}${mark(settings.characterMatchThreshold !== defaults.characterMatchThreshold)}`,
+        `Max Reference Images: ${settings.maxReferenceImages}${mark(settings.maxReferenceImages !== defaults.maxReferenceImages)}`,
+        `Continuity Episodes: ${settings.continuityEpisodes}${mark(settings.continuityEpisodes !== defaults.continuityEpisodes)}`,
+        'Models:',
+        ...(Object.keys(MODEL_LABELS) as (keyof ModelSettings)[]).map(role => {
+            const limits = settings.requestLimits[role];
+            const defaultLimits = defaults.requestLimits[role];
+            const limitsChanged = limits.maxConcurrency !== defaultLimits.maxConcurrency || limits.timeoutSeconds !== defaultLimits.timeoutSeconds;
+            return `  - ${MODEL_LABELS[role]}: ${settings.models[role]}${mark(settings.models[role] !== defaults.models[role])}`
+                + ` (${limits.maxConcurrency} at a time, ${limits.timeoutSeconds}s timeout${mark(limitsChanged)})`;
+        }),
+        'Prices (USD per million input / output tokens, per image):',
+        ...modelsInUse(settings).map(model => {
+            const price: ModelPrice | undefined = settings.prices[model];
+            if (!price) return `  - ${model}: not in the price table`;
+            const defaultPrice = defaults.prices[model];
+            const changed = !defaultPrice || (Object.keys(price) as (keyof ModelPrice)[]).some(key => price[key] !== defaultPrice[key]);
+            return `  - ${model}: ${price.inputPerMillion} / ${price.outputPerMillion}, ${price.perImage}${mark(changed)}`;
+        }),
+    ];
+    return lines.join('\n');
+};
@@ -0,0 +1,40 @@
+import { GeneratedAudio, Script, SceneElement } from '../types';
+
+/**
+ * STORYBOARD TIMELINE
+ * The sequencing shared by the presentation player and the video export: images and dialogue
+ * recordings in script order, each image held for IMAGE_HOLD_MS, each recording played to the
+ * end over the most recent image, with a caption taken from the item's scene element.
+ */
+
+/** Only what the timeline needs from a generated image. */
+export type TimelineImage = { sceneIndex: number; imageUrl: string };
+
+export type StoryboardItem = (TimelineImage | GeneratedAudio) & {
+    sceneElement?: SceneElement;
+};
+
+export const IMAGE_HOLD_MS = 4000;
+
+export const buildStoryboardItems = (items: (TimelineImage | GeneratedAudio)[], script: Script): StoryboardItem[] =>
+    items
+        .map(item => ({
+            ...item,
+            sceneElement: script.scene_elements[item.sceneIndex],
+        }))
+        .sort((a, b) => a.sceneIndex - b.sceneIndex);
+
+/**
+ * The overlay text for an item: action lines are shown as-is, dialogue blocks as the
+ * speaker's name over the first spoken line.
+ */
+export const captionFor = (sceneElement?: SceneElement): { character: string; text: string } => {
+    if (sceneElement?.type === 'action') return { character: '', text: sceneElement.content || '' };
+    if (sceneElement?.type === 'dialogue_block') {
+        return {
+            character: sceneElement.character.toUpperCase(),
+            text: sceneElement.elements.find(e => e.type === 'dialogue')?.content || '',
+        };
+    }
+    return { character: '', text: '' };
+};
@@ -0,0 +1,108 @@
+import { StoryboardItem, IMAGE_HOLD_MS } from './storyboardTimeline';
+
+/**
+ * SUBTITLE EXPORT
+ * Builds caption cues on the same timeline as the presentation player and the video export:
+ * each panel lasts IMAGE_HOLD_MS and each dialogue recording lasts as long as its audio. A
+ * panel is captioned with the dialogue associated with it; when that dialogue has its own
+ * recording, the recording carries the caption instead so the line is not shown twice. Cues
+ * start at 0; offsetCues shifts them to match a video that opens with a still frame.
+ */
+
+export interface SubtitleCue {
+    /** The storyboard items the cue is shown over, inclusive. */
+    firstItem: number;
+    lastItem: number;
+    startMs: number;
+    endMs: number;
+    text: string;
+}
+
+/**
+ * The dialogue shown with a panel: its HS3000 line, or the nearest dialogue in the script.
+ * `elementIndex` is the dialogue block the line comes from, or null when none is known.
+ */
+export type PanelDialogueLookup = (sceneIndex: number) => { character: string; dialogue: string; elementIndex: number | null } | null;
+
+const decodeDurationMs = async (audio: Blob): Promise<number> => {
+    // An OfflineAudioContext decodes without needing a user gesture or an output device.
+    const context = new OfflineAudioContext(1, 1, 44100);
+    const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+    return Math.round(buffer.duration * 1000);
+};
+
+/**
+ * Returns each item's duration in milliseconds. A recording that cannot be decoded falls back
+ * to the panel duration.
+ */
+export const measureTimeline = async (items: StoryboardItem[]): Promise<number[]> => {
+    const durations: number[] = [];
+    for (const item of items) {
+        if (!('audioBlob' in item)) {
+            durations.push(IMAGE_HOLD_MS);
+            continue;
+        }
+        try {
+            durations.push(await decodeDurationMs(item.audioBlob));
+        } catch (e) {
+            console.warn(`Could not measure the recording for scene element ${item.sceneIndex}:`, e);
+            durations.push(IMAGE_HOLD_MS);
+        }
+    }
+    return durations;
+};
+
+export const buildSubtitleCues = (items: StoryboardItem[], durationsMs: number[], dialogueForPanel: PanelDialogueLookup): SubtitleCue[] => {
+    const recorded = new Set(items.filter(item => 'audioBlob' in item).map(item => item.sceneIndex));
+    const cues: SubtitleCue[] = [];
+    let startMs = 0;
+
+    items.forEach((item, itemIndex) => {
+        const endMs = startMs + (durationsMs[itemIndex] ?? IMAGE_HOLD_MS);
+        let text = '';
+        if ('audioBlob' in item) {
+            const el = item.sceneElement;
+            if (el?.type === 'dialogue_block') {
+                const spoken = el.elements.filter(e => e.type === 'dialogue').map(e => e.content).join(' ');
+                if (spoken) text = `${el.character.toUpperCase()}: ${spoken}`;
+            }
+        } else {
+            const diag = dialogueForPanel(item.sceneIndex);
+            if (diag && (diag.elementIndex === null || !recorded.has(diag.elementIndex))) text = `${diag.character}: ${diag.dialogue}`;
+        }
+
+        if (text) {
+            // Consecutive panels near the same line share one cue rather than repeating it.
+            const previous = cues[cues.length - 1];
+            if (previous && previous.text === text && previous.lastItem === itemIndex - 1) {
+                previous.endMs = endMs;
+                previous.lastItem = itemIndex;
+            } else {
+                cues.push({ firstItem: itemIndex, lastItem: itemIndex, startMs, endMs, text });
+            }
+        }
+        startMs = endMs;
+    });
+    return cues;
+};
+
+export const offsetCues = (cues: SubtitleCue[], offsetMs: number): SubtitleCue[] =>
+    cues.map(cue => ({ ...cue, startMs: cue.startMs + offsetMs, endMs: cue.endMs + offsetMs }));
+
+/** Returns the cue shown while the given storyboard item plays, if any. */
+export const cueForItem = (cues: SubtitleCue[], itemIndex: number): SubtitleCue | undefined =>
+    cues.find(cue => cue.firstItem <= itemIndex && itemIndex <= cue.lastItem);
+
+const formatTimestamp = (ms: number, separator: ',' | '.') => {
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const hours = Math.floor(ms / 3_600_000);
+    const minutes = Math.floor(ms / 60_000) % 60;
+    const seconds = Math.floor(ms / 1000) % 60;
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const cuesToSrt = (cues: SubtitleCue[]): string =>
+    cues.map((cue, i) => `${i + 1}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${cue.text}\n`).join('\n');
+
+export const cuesToVtt = (cues: SubtitleCue[]): string =>
+    ['WEBVTT\n', ...cues.map(cue => `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}\n${cue.text}\n`)].join('\n');
@@ -0,0 +1,217 @@
+
+import { Script, SceneElement, DialogueBlock, StoryElements, AnalyzedCharacter, CohesivePrompt, EpisodeSummary } from '../types';
+
+/**
+ * MODEL RESPONSE VALIDATION
+ * Runtime checks for every JSON shape the models return. Validators repair what they can
+ * (trimming, defaulting, dropping malformed items) and report each change as an issue.
+ * A null `value` means the response is unusable and the model should be asked again.
+ */
+
+export interface ValidationResult<T> {
+    value: T | null;
+    issues: string[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asTrimmedString = (value: unknown): string | null =>
+    typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const SCENE_ELEMENT_TYPES = ['scene_heading', 'action', 'dialogue_block', 'transition'];
+const GENDERS = ['male', 'female', 'unknown'];
+
+export const validateStoryElements = (raw: unknown): ValidationResult<StoryElements> => {
+    if (!isRecord(raw)) return { value: null, issues: ['Response is not a JSON object.'] };
+    const issues: string[] = [];
+    const field = (key: keyof StoryElements) => {
+        const text = asTrimmedString(raw[key]);
+        if (!text) issues.push(`Missing "${key}".`);
+        return text;
+    };
+    const characters = field('characters');
+    const story = field('story');
+    const today = field('today');
+    if (!characters || !story || !today) return { value: null, issues };
+    return { value: { characters, story, today }, issues };
+};
+
+export const validateAnalyzedCharacters = (raw: unknown): ValidationResult<AnalyzedCharacter[]> => {
+    if (!isRecord(raw) || !Array.isArray(raw.characters)) {
+        return { value: null, issues: ['Response has no "characters" array.'] };
+    }
+    const issues: string[] = [];
+    const characters: AnalyzedCharacter[] = [];
+    raw.characters.forEach((item, i) => {
+        const name = isRecord(item) ? asTrimmedString(item.name) : null;
+        if (!isRecord(item) || !name) {
+            issues.push(`Dropped character #${i} without a name.`);
+            return;
+        }
+        let gender = typeof item.gender === 'string' ? item.gender.toLowerCase() : '';
+        if (!GENDERS.includes(gender)) {
+            issues.push(`Character "${name}" had gender "${String(item.gender)}"; using "unknown".`);
+            gender = 'unknown';
+        }
+        characters.push({
+            name,
+            gender: gender as AnalyzedCharacter['gender'],
+            race: asTrimmedString(item.race) ?? undefined,
+            voiceDescription: asTrimmedString(item.voiceDescription) ?? undefined,
+            otherDescriptors: asTrimmedString(item.otherDescriptors) ?? undefined,
+        });
+    });
+    return { value: characters, issues };
+};
+
+const validateSceneElement = (item: unknown, i: number, issues: string[]): SceneElement | null => {
+    if (!isRecord(item) || typeof item.type !== 'string' || !SCENE_ELEMENT_TYPES.includes(item.type)) {
+        issues.push(`Dropped scene element #${i} with unknown type "${isRecord(item) ? String(item.type) : typeof item}".`);
+        return null;
+    }
+    if (item.type !== 'dialogue_block') {
+        const content = asTrimmedString(item.content);
+        if (!content) {
+            issues.push(`Dropped empty ${item.type} at #${i}.`);
+            return null;
+        }
+        return { type: item.type, content } as SceneElement;
+    }
+
+    const character = asTrimmedString(item.character);
+    if (!character) {
+        issues.push(`Dropped dialogue_block #${i} without a character.`);
+        return null;
+    }
+    const elements: DialogueBlock['elements'] = [];
+    if (Array.isArray(item.elements)) {
+        item.elements.forEach((part, j) => {
+            const content = isRecord(part) ? asTrimmedString(part.content) : null;
+            if (!isRecord(part) || !content || (part.type !== 'dialogue' && part.type !== 'parenthetical')) {
+                issues.push(`Dropped malformed dialogue part #${j} in dialogue_block #${i} (${character}).`);
+                return;
+            }
+            elements.push({ type: part.type, content });
+        });
+    } else if (asTrimmedString(item.content)) {
+        // Models sometimes put the spoken line in `content` instead of `elements`.
+        elements.push({ type: 'dialogue', content: asTrimmedString(item.content)! });
+        issues.push(`Repaired dialogue_block #${i} (${character}): moved "content" into "elements".`);
+    }
+    if (!elements.some(e => e.type === 'dialogue')) {
+        issues.push(`Dropped dialogue_block #${i} (${character}) with no spoken dialogue.`);
+        return null;
+    }
+    return { type: 'dialogue_block', character, elements };
+};
+
+export const validateScript = (raw: unknown): ValidationResult<Script> => {
+    if (!isRecord(raw) || !Array.isArray(raw.scene_elements)) {
+        return { value: null, issues: ['Response has no "scene_elements" array.'] };
+    }
+    const issues: string[] = [];
+    const sceneElements = raw.scene_elements
+        .map((item, i) => validateSceneElement(item, i, issues))
+        .filter((el): el is SceneElement => el !== null);
+
+    if (!sceneElements.some(el => el.type === 'action')) {
+        issues.push('The script contains no usable action lines to storyboard.');
+        return { value: null, issues };
+    }
+
+    let title = asTrimmedString(raw.title);
+    if (!title) {
+        title = 'Untitled Episode';
+        issues.push('Missing title; using "Untitled Episode".');
+    }
+    return {
+        value: { source_file: asTrimmedString(raw.source_file) ?? '', title, scene_elements: sceneElements },
+        issues,
+    };
+};
+
+/**
+ * Cohesive prompts must refer to one of the requested action elements, at most once each.
+ */
+export const validateCohesivePrompts = (raw: unknown, requestedSceneIndices: number[]): ValidationResult<CohesivePrompt[]> => {
+    if (!isRecord(raw) || !Array.isArray(raw.prompts)) {
+        return { value: null, issues: ['Response has no "prompts" array.'] };
+    }
+    const issues: string[] = [];
+    const requested = new Set(requestedSceneIndices);
+    const seen = new Set<number>();
+    const prompts: CohesivePrompt[] = [];
+
+    raw.prompts.forEach((item, i) => {
+        if (!isRecord(item)) {
+            issues.push(`Dropped prompt #${i}: not an object.`);
+            return;
+        }
+        const sceneIndex = typeof item.sceneIndex === 'number' ? item.sceneIndex : Number(item.sceneIndex);
+        const prompt = asTrimmedString(item.prompt);
+        if (!requested.has(sceneIndex)) {
+            issues.push(`Dropped prompt #${i}: sceneIndex ${String(item.sceneIndex)} is not one of the requested action elements.`);
+            return;
+        }
+        if (seen.has(sceneIndex)) {
+            issues.push(`Dropped prompt #${i}: duplicate sceneIndex ${sceneIndex}.`);
+            return;
+        }
+        if (!prompt) {
+            issues.push(`Dropped prompt #${i} for sceneIndex ${sceneIndex}: empty prompt.`);
+            return;
+        }
+        let characters: string[] = [];
+        if (Array.isArray(item.characters)) {
+            characters = item.characters.map(asTrimmedString).filter((c): c is string => c !== null);
+        } else {
+            issues.push(`Prompt for sceneIndex ${sceneIndex} had no "characters" list; assuming none.`);
+        }
+        seen.add(sceneIndex);
+        prompts.push({ sceneIndex, prompt, characters });
+    });
+
+    const missing = requestedSceneIndices.filter(index => !seen.has(index));
+    if (missing.length > 0) issues.push(`No prompt returned for sceneIndex ${missing.join(', ')}.`);
+    if (prompts.length === 0 && requestedSceneIndices.length > 0) return { value: null, issues };
+    return { value: prompts.sort((a, b) => a.sceneIndex - b.sceneIndex), issues };
+};
+
+/**
+ * HS3000 lines are matched to their inputs by position, so the count must match exactly.
+ */
+export const validateHs3000Lines = (raw: unknown, expectedCount: number): ValidationResult<{ character: string, dialogue: string }[]> => {
+    if (!isRecord(raw) || !Array.isArray(raw.lines)) {
+        return { value: null, issues: ['Response has no "lines" array.'] };
+    }
+    const issues: string[] = [];
+    const lines = raw.lines.map((item, i) => {
+        const character = isRecord(item) ? asTrimmedString(item.character) : null;
+        const dialogue = isRecord(item) ? asTrimmedString(item.dialogue) : null;
+        if (!character || !dialogue) issues.push(`Line #${i} is missing a character or dialogue.`);
+        return { character: character ?? '', dialogue: dialogue ?? '' };
+    });
+    if (lines.length !== expectedCount) {
+        issues.push(`Expected ${expectedCount} lines but received ${lines.length}.`);
+        return { value: null, issues };
+    }
+    if (issues.length > 0) return { value: null, issues };
+    return { value: lines, issues };
+};
+
+export const validateEpisodeSummary = (raw: unknown): ValidationResult<EpisodeSummary> => {
+    if (!isRecord(raw)) return { value: null, issues: ['Response is not a JSON object.'] };
+    const synopsis = asTrimmedString(raw.synopsis);
+    if (!synopsis) return { value: null, issues: ['Missing "synopsis".'] };
+    const issues: string[] = [];
+    let runningGags: string[] = [];
+    if (Array.isArray(raw.runningGags)) {
+        runningGags = raw.runningGags.map(asTrimmedString).filter((gag): gag is string => gag !== null);
+    } else {
+        issues.push('Missing "runningGags" list; assuming none.');
+    }
+    return { value: { synopsis, runningGags }, issues };
+};
@@ -0,0 +1,241 @@
+import { StoryboardItem, IMAGE_HOLD_MS, captionFor } from './storyboardTimeline';
+
+/**
+ * ANIMATIC VIDEO EXPORT
+ * Plays the storyboard timeline onto a canvas in real time and records it with MediaRecorder:
+ * the same holds and dialogue recordings as the presentation player, background music at the
+ * player's volume, and the caption overlay burned into the frame. Rendering takes as long as
+ * the animatic runs; nothing is played through the speakers.
+ */
+
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+const FRAME_RATE = 30;
+const MUSIC_VOLUME = 0.15;
+/** Gives the recorder time to start before the first slide. */
+const LEAD_IN_SECONDS = 0.25;
+/** How long the recorded video shows the first frame before the timeline starts. */
+export const VIDEO_LEAD_IN_MS = LEAD_IN_SECONDS * 1000;
+const WEBM_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+interface Slide {
+    start: number;
+    duration: number;
+    image: HTMLImageElement | null;
+    caption: { character: string; text: string };
+    audio?: AudioBuffer;
+}
+
+const loadImage = async (url: string): Promise<HTMLImageElement> => {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+};
+
+/** Splits text into lines that fit `maxWidth` in the context's current font. */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+/** Draws the frame the way the player shows it: image contained in a black 16:9 box, caption over a bottom gradient. */
+const drawSlide = (ctx: CanvasRenderingContext2D, slide: Slide) => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+
+    if (slide.image) {
+        const scale = Math.min(VIDEO_WIDTH / slide.image.naturalWidth, VIDEO_HEIGHT / slide.image.naturalHeight);
+        const width = slide.image.naturalWidth * scale;
+        const height = slide.image.naturalHeight * scale;
+        ctx.drawImage(slide.image, (VIDEO_WIDTH - width) / 2, (VIDEO_HEIGHT - height) / 2, width, height);
+    }
+
+    const { character, text } = slide.caption;
+    if (!character && !text) return;
+
+    const padding = 40;
+    ctx.font = '28px sans-serif';
+    const lines = wrapText(ctx, text, VIDEO_WIDTH - padding * 2);
+    const blockHeight = (character ? 40 : 0) + lines.length * 36 + padding;
+
+    const gradient = ctx.createLinearGradient(0, VIDEO_HEIGHT - blockHeight - 60, 0, VIDEO_HEIGHT);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(0.4, 'rgba(0, 0, 0, 0.6)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0.8)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, VIDEO_HEIGHT - blockHeight - 60, VIDEO_WIDTH, blockHeight + 60);
+
+    ctx.fillStyle = '#fff';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    ctx.shadowBlur = 4;
+    let y = VIDEO_HEIGHT - blockHeight + 16;
+    if (character) {
+        ctx.font = 'bold 32px sans-serif';
+        ctx.fillText(character, padding, y + 24);
+        y += 40;
+    }
+    ctx.font = '28px sans-serif';
+    for (const line of lines) {
+        ctx.fillText(line, padding, y + 24);
+        y += 36;
+    }
+    ctx.shadowBlur = 0;
+};
+
+/**
+ * Lays the timeline out in seconds. Like the player, an audio item keeps showing the most
+ * recent image, and the opening slides show the first image before it is reached.
+ */
+const buildSlides = async (items: StoryboardItem[], audioContext: AudioContext): Promise<Slide[]> => {
+    const images = new Map<string, HTMLImageElement>();
+    for (const item of items) {
+        if ('imageUrl' in item && !images.has(item.imageUrl)) images.set(item.imageUrl, await loadImage(item.imageUrl));
+    }
+
+    const firstImageItem = items.find(item => 'imageUrl' in item);
+    let currentImage = firstImageItem && 'imageUrl' in firstImageItem ? images.get(firstImageItem.imageUrl) ?? null : null;
+    const slides: Slide[] = [];
+    let start = 0;
+    for (const item of items) {
+        if ('imageUrl' in item) currentImage = images.get(item.imageUrl) ?? null;
+        const audio = 'audioBlob' in item ? await audioContext.decodeAudioData(await item.audioBlob.arrayBuffer()) : undefined;
+        const duration = audio ? audio.duration : IMAGE_HOLD_MS / 1000;
+        slides.push({ start, duration, image: currentImage, caption: captionFor(item.sceneElement), audio });
+        start += duration;
+    }
+    return slides;
+};
+
+/** Decodes the background tracks, skipping any that cannot be read. */
+const decodeMusic = async (musicUrls: string[], audioContext: AudioContext): Promise<AudioBuffer[]> => {
+    const tracks: AudioBuffer[] = [];
+    for (const url of musicUrls) {
+        try {
+            tracks.push(await audioContext.decodeAudioData(await (await fetch(url)).arrayBuffer()));
+        } catch (e) {
+            console.warn('Skipping a background music track that could not be decoded:', e);
+        }
+    }
+    return tracks;
+};
+
+/** Loops the background tracks, in order, under the whole timeline. */
+const scheduleMusic = (tracks: AudioBuffer[], audioContext: AudioContext, destination: AudioNode, startAt: number, totalSeconds: number) => {
+    if (tracks.length === 0) return;
+
+    const gain = audioContext.createGain();
+    gain.gain.value = MUSIC_VOLUME;
+    gain.connect(destination);
+    for (let offset = 0, i = 0; offset < totalSeconds; offset += tracks[i % tracks.length].duration, i++) {
+        const source = audioContext.createBufferSource();
+        source.buffer = tracks[i % tracks.length];
+        source.connect(gain);
+        source.start(startAt + offset);
+        source.stop(startAt + totalSeconds);
+    }
+};
+
+export const isVideoExportSupported = () =>
+    typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Renders the storyboard to a WebM blob. `onProgress` receives 0–1 as the timeline plays;
+ * aborting `signal` stops the recording and rejects.
+ */
+export async function renderStoryboardVideo(
+    items: StoryboardItem[],
+    backgroundMusic: string[],
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+): Promise<Blob> {
+    const mimeType = WEBM_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record WebM video.');
+    if (!items.some(item => 'imageUrl' in item)) throw new Error('The storyboard has no images to render.');
+
+    const canvas = document.createElement('canvas');
+    canvas.width = VIDEO_WIDTH;
+    canvas.height = VIDEO_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is unavailable for video rendering.');
+
+    const audioContext = new AudioContext();
+    try {
+        await audioContext.resume();
+        const slides = await buildSlides(items, audioContext);
+        if (signal?.aborted) throw new Error('Video rendering was cancelled.');
+        const musicTracks = await decodeMusic(backgroundMusic, audioContext);
+        if (signal?.aborted) throw new Error('Video rendering was cancelled.');
+        const totalSeconds = slides.reduce((sum, slide) => sum + slide.duration, 0);
+
+        const audioDestination = audioContext.createMediaStreamDestination();
+        const stream = new MediaStream([
+            ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+            ...audioDestination.stream.getAudioTracks(),
+        ]);
+        const recorder = new MediaRecorder(stream, { mimeType });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+        const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+        // Audio is scheduled on the AudioContext clock, and frames follow the same clock, so
+        // slide changes stay in sync with the dialogue even if timers run late. Everything is
+        // decoded by now, so the recorder starts well within the lead-in.
+        const startAt = audioContext.currentTime + LEAD_IN_SECONDS;
+        for (const slide of slides) {
+            if (!slide.audio) continue;
+            const source = audioContext.createBufferSource();
+            source.buffer = slide.audio;
+            source.connect(audioDestination);
+            source.start(startAt + slide.start);
+        }
+        scheduleMusic(musicTracks, audioContext, audioDestination, startAt, totalSeconds);
+
+        drawSlide(ctx, slides[0]);
+        recorder.start(1000);
+
+        await new Promise<void>((resolve, reject) => {
+            let drawn: Slide | null = null;
+            const timer = window.setInterval(() => {
+                if (signal?.aborted) {
+                    clearInterval(timer);
+                    reject(new Error('Video rendering was cancelled.'));
+                    return;
+                }
+                const elapsed = audioContext.currentTime - startAt;
+                if (elapsed >= totalSeconds) {
+                    clearInterval(timer);
+                    onProgress?.(1);
+                    resolve();
+                    return;
+                }
+                const slide = [...slides].reverse().find(s => s.start <= Math.max(0, elapsed)) ?? slides[0];
+                // Redrawing every tick keeps the canvas producing frames for the recorder.
+                drawSlide(ctx, slide);
+                if (slide !== drawn) {
+                    drawn = slide;
+                    onProgress?.(Math.max(0, elapsed) / totalSeconds);
+                }
+            }, 1000 / FRAME_RATE);
+        }).finally(() => {
+            if (recorder.state !== 'inactive') recorder.stop();
+            stream.getTracks().forEach(track => track.stop());
+        });
+
+        await stopped;
+        return new Blob(chunks, { type: 'video/webm' });
+    } finally {
+        await audioContext.close();
+    }
+}
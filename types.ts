@@ -74,3 +74,53 @@ export interface GeneratedAudio {
   sceneIndex: number;
   audioBlob: Blob;
 }
+
+export interface GeneratedImage {
+  sceneIndex: number;
+  imageUrl: string;
+  base64: string;
+  /** The full prompt sent to the image model, including the style prefix. */
+  prompt: string;
+  /** The panel prompt before the style prefix was added; absent for images restored from older zips. */
+  panelPrompt?: string;
+  /** Names of the character reference images attached when the panel was generated. */
+  referenceNames?: string[];
+}
+
+/** A panel's HS3000 dialogue line; see services/hs3000.ts for the file formats. */
+export interface Hs3000Line {
+  /** The panel (generated image) the line belongs to. */
+  sceneIndex: number;
+  character: string;
+  dialogue: string;
+}
+
+export interface GeneratedCharacterPortrait {
+  base64: string;
+  mimeType: string;
+  prompt: string;
+}
+
+export interface CharacterImage {
+  fileName: string;
+  base64: string;
+  mimeType: string;
+  /** Expression, outfit or angle words from the image's folder and file name, in a reference set. */
+  tags?: string[];
+}
+
+export interface TextFile {
+  name: string;
+  content: string;
+}
+
+export interface CohesivePrompt {
+  sceneIndex: number;
+  prompt: string;
+  characters: string[];
+}
+
+export interface EpisodeSummary {
+  synopsis: string;
+  runningGags: string[];
+}